@@ -0,0 +1,159 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { jcsCanonicalise, sha256Base64url } from './crypto.js';
+import { base64urlDecode, writeFileAtomicSync } from './utils.js';
+import type { BlobReference, BlobStore } from './types.js';
+
+const SHA256_BASE64URL_PATTERN = /^[A-Za-z0-9_-]{43}$/;
+
+// ---------------------------------------------------------------------------
+// Directory store
+// ---------------------------------------------------------------------------
+
+/**
+ * Keeps blobs as files named by the hex form of their SHA-256, sharded by the
+ * first two characters; hex keeps names distinct on case-insensitive file
+ * systems. Writes go to a temp file first and are renamed into place.
+ */
+export class DirectoryBlobStore implements BlobStore {
+  private readonly dir: string;
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  put(sha256: string, data: Buffer): void {
+    const filePath = this.pathFor(sha256);
+    if (fs.existsSync(filePath)) {
+      return;
+    }
+
+    fs.mkdirSync(path.dirname(filePath), { recursive: true, mode: 0o700 });
+    writeFileAtomicSync(filePath, data, 0o600);
+  }
+
+  get(sha256: string): Buffer | null {
+    try {
+      return fs.readFileSync(this.pathFor(sha256));
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw err;
+    }
+  }
+
+  private pathFor(sha256: string): string {
+    if (!SHA256_BASE64URL_PATTERN.test(sha256)) {
+      throw new Error(`Invalid blob key "${sha256}": expected a base64url SHA-256`);
+    }
+    const name = base64urlDecode(sha256).toString('hex');
+    return path.join(this.dir, name.slice(0, 2), name);
+  }
+}
+
+// ---------------------------------------------------------------------------
+// References
+// ---------------------------------------------------------------------------
+
+/**
+ * Move a payload into the store and return the reference to sign in its place.
+ *
+ * The blob is addressed by the base64url SHA-256 of its JCS form, which is the
+ * payload_hash the payload would have had if it were sent inline.
+ *
+ * @throws Error if the store writes asynchronously; use offloadPayloadAsync() for those
+ */
+export function offloadPayload(
+  payload: Record<string, unknown> | string | null,
+  store: BlobStore,
+): BlobReference {
+  const { data, reference } = toBlob(payload);
+  const stored = store.put(reference.sha256, data);
+  if (stored instanceof Promise) {
+    // Blobs are content-addressed, so a write that still lands is harmless
+    stored.catch(() => undefined);
+    throw new Error('The blob store writes asynchronously; use createAndSubmit() or offloadPayloadAsync() with it');
+  }
+  return reference;
+}
+
+/**
+ * offloadPayload() for stores that may write asynchronously, e.g. to object storage.
+ */
+export async function offloadPayloadAsync(
+  payload: Record<string, unknown> | string | null,
+  store: BlobStore,
+): Promise<BlobReference> {
+  const { data, reference } = toBlob(payload);
+  await store.put(reference.sha256, data);
+  return reference;
+}
+
+/**
+ * Fetch an offloaded payload and check it against its reference.
+ *
+ * Payloads that are not blob references are returned unchanged.
+ *
+ * @throws Error if the blob is missing or does not match the reference's hash and size,
+ *   or if the store reads asynchronously (use resolvePayloadAsync() for those)
+ */
+export function resolvePayload(
+  payload: BlobReference | Record<string, unknown> | string | null,
+  store: BlobStore,
+): Record<string, unknown> | string | null {
+  if (!isBlobReference(payload)) {
+    return payload;
+  }
+
+  const data = store.get(payload.sha256);
+  if (data instanceof Promise) {
+    data.catch(() => undefined);
+    throw new Error('The blob store reads asynchronously; use resolvePayloadAsync() with it');
+  }
+  return fromBlob(payload, data);
+}
+
+/**
+ * resolvePayload() for stores that may read asynchronously, e.g. from object storage.
+ */
+export async function resolvePayloadAsync(
+  payload: BlobReference | Record<string, unknown> | string | null,
+  store: BlobStore,
+): Promise<Record<string, unknown> | string | null> {
+  if (!isBlobReference(payload)) {
+    return payload;
+  }
+  return fromBlob(payload, await store.get(payload.sha256));
+}
+
+export function isBlobReference(payload: unknown): payload is BlobReference {
+  return typeof payload === 'object' && payload !== null && (payload as { _ref?: unknown })._ref === 'blob'
+    && typeof (payload as { sha256?: unknown }).sha256 === 'string'
+    && typeof (payload as { size?: unknown }).size === 'number';
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function toBlob(payload: Record<string, unknown> | string | null): { data: Buffer; reference: BlobReference } {
+  const data = Buffer.from(jcsCanonicalise(payload), 'utf-8');
+  return { data, reference: { _ref: 'blob', sha256: sha256Base64url(data), size: data.length } };
+}
+
+/** Check fetched bytes against their reference and decode them. */
+function fromBlob(reference: BlobReference, data: Buffer | null): Record<string, unknown> | string | null {
+  if (!data) {
+    throw new Error(`Blob ${reference.sha256} not found`);
+  }
+  if (data.length !== reference.size) {
+    throw new Error(`Blob ${reference.sha256} size mismatch: expected ${reference.size} bytes, got ${data.length}`);
+  }
+  const actual = sha256Base64url(data);
+  if (actual !== reference.sha256) {
+    throw new Error(`Blob ${reference.sha256} hash mismatch: content hashes to ${actual}`);
+  }
+
+  return JSON.parse(data.toString('utf-8')) as Record<string, unknown> | string | null;
+}
@@ -0,0 +1,37 @@
+import { ElydoraClient } from './client.js';
+import { generateAgentKeyPair } from './crypto.js';
+import { defaultKid } from './utils.js';
+import type { BootstrapAgentOptions, BootstrapAgentResult, RequestOptions } from './types.js';
+
+/**
+ * Provision a new agent: generate an Ed25519 key pair, register the agent
+ * with its kid and public key, and return a client that signs as it.
+ *
+ * The private key is only returned, never persisted; store it before use.
+ */
+export async function bootstrapAgent(
+  options: BootstrapAgentOptions,
+  requestOptions?: RequestOptions,
+): Promise<BootstrapAgentResult> {
+  const { privateKey, publicKey } = generateAgentKeyPair();
+  const kid = options.kid ?? defaultKid(options.agentId);
+
+  const client = new ElydoraClient({
+    ...options.clientConfig,
+    orgId: options.orgId,
+    agentId: options.agentId,
+    privateKey,
+    kid,
+    baseUrl: options.baseUrl,
+  });
+  client.setToken(options.token);
+
+  const { agent, keys } = await client.registerAgent({
+    agent_id: options.agentId,
+    display_name: options.displayName,
+    responsible_entity: options.responsibleEntity,
+    keys: [{ kid, public_key: publicKey, algorithm: 'ed25519' }],
+  }, requestOptions);
+
+  return { client, agent, keys, kid, privateKey, publicKey };
+}
@@ -0,0 +1,60 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { writeFileAtomicSync } from './utils.js';
+import type { ChainStateStore } from './types.js';
+
+// ---------------------------------------------------------------------------
+// In-memory store
+// ---------------------------------------------------------------------------
+
+/**
+ * Keeps the chain hash in process memory only (the client's default behaviour).
+ */
+export class MemoryChainStateStore implements ChainStateStore {
+  private chainHash: string | null;
+
+  constructor(initialChainHash?: string) {
+    this.chainHash = initialChainHash ?? null;
+  }
+
+  load(): string | null {
+    return this.chainHash;
+  }
+
+  save(chainHash: string): void {
+    this.chainHash = chainHash;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// File store (atomic writes)
+// ---------------------------------------------------------------------------
+
+/**
+ * Persists the chain hash to a JSON file using write-to-temp + rename.
+ *
+ * Uses the same `{ "prev_chain_hash": "..." }` format as the generated hook
+ * script's chain-state.json.
+ */
+export class FileChainStateStore implements ChainStateStore {
+  private readonly filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  load(): string | null {
+    try {
+      const raw = fs.readFileSync(this.filePath, 'utf-8');
+      const state = JSON.parse(raw) as { prev_chain_hash?: unknown };
+      return typeof state.prev_chain_hash === 'string' ? state.prev_chain_hash : null;
+    } catch {
+      return null;
+    }
+  }
+
+  save(chainHash: string): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    writeFileAtomicSync(this.filePath, JSON.stringify({ prev_chain_hash: chainHash }));
+  }
+}
@@ -2,9 +2,15 @@ import { parseArgs } from 'node:util';
 import fsp from 'node:fs/promises';
 import path from 'node:path';
 import os from 'node:os';
-import { derivePublicKey } from './crypto.js';
+import { derivePublicKey, generateAgentKeyPair } from './crypto.js';
+import { ElydoraClient } from './client.js';
+import { FileTokenStore } from './token-store.js';
+import { FileChainStateStore } from './chain-state.js';
+import { nextKid, writeFileAtomic } from './utils.js';
+import { SeedSigner } from './signer.js';
 import { SUPPORTED_AGENTS } from './plugins/registry.js';
 import type { AgentPlugin, InstallConfig } from './plugins/base.js';
+import type { RotateKeyResult } from './types.js';
 import { generateHookScript, generateGuardScript } from './plugins/hook-template.js';
 import { claudecodePlugin } from './plugins/claudecode.js';
 import { cursorPlugin } from './plugins/cursor.js';
@@ -37,20 +43,41 @@ function die(message: string): never {
   process.exit(1);
 }
 
+interface AgentConfig {
+  org_id?: string;
+  agent_id?: string;
+  kid?: string;
+  base_url?: string;
+  token?: string;
+  agent_name?: string;
+  /** Key file in the agent directory; absent for installs that only have private.key */
+  private_key_file?: string;
+}
+
+/** Read the private key that config.json names, falling back to private.key. */
+async function readAgentKey(agentDir: string, cfg: AgentConfig): Promise<string> {
+  const keyFile = cfg.private_key_file ? path.basename(cfg.private_key_file) : 'private.key';
+  return (await fsp.readFile(path.join(agentDir, keyFile), 'utf-8')).trim();
+}
+
 function printUsage(): void {
   console.log(`Elydora CLI — Tamper-evident audit for AI coding agents
 
 Usage:
   elydora install   --agent <name> --org_id <id> --agent_id <id> --private_key <key> --kid <kid> [--token <token>] [--base_url <url>]
   elydora uninstall --agent <name> [--agent_id <id>]
+  elydora rotate-token --agent_id <id> [--token <token>]
+  elydora rotate-key   --agent_id <id> [--grace_seconds <n>] [--revoke_previous | --keep_previous]
   elydora status
   elydora agents
 
 Commands:
-  install     Install Elydora audit hook for a coding agent
-  uninstall   Remove Elydora audit hook for a coding agent
-  status      Show installation status for all agents
-  agents      List supported coding agents
+  install       Install Elydora audit hook for a coding agent
+  uninstall     Remove Elydora audit hook for a coding agent
+  rotate-token  Rotate the API token in an installed agent's config (or set --token)
+  rotate-key    Register a new signing key for an installed agent and retire (or revoke) the old one
+  status        Show installation status for all agents
+  agents        List supported coding agents
 
 Supported agents: ${Array.from(SUPPORTED_AGENTS.keys()).join(', ')}
 `);
@@ -227,6 +254,149 @@ async function cmdUninstall(args: string[]): Promise<void> {
   console.log(`Elydora audit hook uninstalled for ${registryEntry.name}.`);
 }
 
+async function cmdRotateToken(args: string[]): Promise<void> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      agent_id: { type: 'string' },
+      token: { type: 'string' },
+    },
+    strict: true,
+  });
+
+  const agentId = values.agent_id;
+  if (!agentId) die('--agent_id is required');
+
+  const agentDir = path.join(ELYDORA_DIR, agentId);
+  const configPath = path.join(agentDir, 'config.json');
+  let cfg: AgentConfig;
+  try {
+    cfg = JSON.parse(await fsp.readFile(configPath, 'utf-8'));
+  } catch {
+    die(`No installed agent found at ${agentDir}`);
+  }
+
+  const store = new FileTokenStore(configPath);
+
+  // Explicit token: just write it, hooks read config.json on every run
+  if (values.token) {
+    store.save({ token: values.token, expires_at: null });
+    console.log(`Token updated in ${configPath}`);
+    return;
+  }
+
+  if (!cfg.token) die(`${configPath} has no token to rotate. Use --token to set one.`);
+  if (!cfg.org_id) die(`${configPath} is missing org_id`);
+
+  const privateKey = await readAgentKey(agentDir, cfg);
+  const client = new ElydoraClient({
+    orgId: cfg.org_id,
+    agentId,
+    privateKey,
+    kid: cfg.kid,
+    baseUrl: cfg.base_url,
+    tokens: { store },
+  });
+
+  const rotated = await client.rotateApiToken();
+  const expiry = rotated.expires_at !== null ? new Date(rotated.expires_at).toISOString() : 'never';
+  console.log(`Token rotated in ${configPath} (expires: ${expiry})`);
+}
+
+async function cmdRotateKey(args: string[]): Promise<void> {
+  const { values } = parseArgs({
+    args,
+    options: {
+      agent_id: { type: 'string' },
+      revoke_previous: { type: 'boolean' },
+      keep_previous: { type: 'boolean' },
+      grace_seconds: { type: 'string' },
+    },
+    strict: true,
+  });
+
+  const agentId = values.agent_id;
+  if (!agentId) die('--agent_id is required');
+
+  const graceSeconds = values.grace_seconds !== undefined ? Number(values.grace_seconds) : 10;
+  if (!Number.isFinite(graceSeconds) || graceSeconds < 0) die('--grace_seconds must be a non-negative number');
+  if (values.revoke_previous && values.keep_previous) die('--revoke_previous and --keep_previous are mutually exclusive');
+
+  const agentDir = path.join(ELYDORA_DIR, agentId);
+  const configPath = path.join(agentDir, 'config.json');
+  let cfg: AgentConfig;
+  let privateKey: string;
+  try {
+    cfg = JSON.parse(await fsp.readFile(configPath, 'utf-8'));
+    privateKey = await readAgentKey(agentDir, cfg);
+  } catch {
+    die(`No installed agent found at ${agentDir}`);
+  }
+
+  if (!cfg.org_id || !cfg.kid) die(`${configPath} is missing org_id or kid`);
+  if (!cfg.token) die(`${configPath} has no token; key rotation needs an authenticated API token`);
+
+  // Continue the hook's chain so the rotation operation links to its last operation
+  const client = new ElydoraClient({
+    orgId: cfg.org_id,
+    agentId,
+    privateKey,
+    kid: cfg.kid,
+    baseUrl: cfg.base_url,
+    chainStateStore: new FileChainStateStore(path.join(agentDir, 'chain-state.json')),
+    features: { agentKeys: true },
+  });
+  client.setToken(cfg.token);
+
+  // The new key is on disk before it is registered, so a registered key is
+  // never lost to a crash or a failed write.
+  const kid = nextKid(cfg.kid);
+  const { privateKey: newKey } = generateAgentKeyPair();
+  const keyFile = `private-${kid.replace(/[^A-Za-z0-9._-]/g, '_')}.key`;
+  const keyPath = path.join(agentDir, keyFile);
+  await writeFileAtomic(keyPath, newKey, 0o600);
+
+  // This process exits long before a retirement timer would fire; the previous key is handled below
+  let rotated: RotateKeyResult;
+  try {
+    rotated = await client.rotateKey({ signer: new SeedSigner(newKey, kid), retirePreviousAfterMs: null });
+  } catch (err) {
+    console.error(`Rotation failed; the agent still uses ${cfg.kid}. The new key is kept at ${keyPath} in case it was registered.`);
+    throw err;
+  }
+
+  // Each key gets its own file and config.json, written last, switches kid and
+  // key file in one rename. Hooks read config.json first, so they always see a
+  // matching pair; regenerate them before the switch so they follow the key file.
+  const hookScriptPath = path.join(agentDir, 'hook.js');
+  await writeFileAtomic(hookScriptPath, generateHookScript(cfg.agent_name ?? agentId, agentId), 0o755);
+  await writeFileAtomic(configPath, JSON.stringify({ ...cfg, kid: rotated.kid, private_key_file: keyFile }, null, 2) + '\n', 0o600);
+
+  console.log(`New key ${rotated.kid} registered (previous: ${rotated.previousKid}).`);
+  console.log(`  Private key: ${keyPath}`);
+  console.log(`  Agent config: ${configPath}`);
+
+  if (values.keep_previous) {
+    console.log(`Key ${rotated.previousKid} is still active; retire or revoke it once nothing signs with it.`);
+    return;
+  }
+
+  if (!values.revoke_previous) {
+    console.log(`Retiring ${rotated.previousKid} in ${graceSeconds}s...`);
+    await new Promise((resolve) => setTimeout(resolve, graceSeconds * 1000));
+    await client.retireAgentKey(agentId, rotated.previousKid);
+    console.log(`Key ${rotated.previousKid} retired.`);
+    return;
+  }
+
+  console.log(`Revoking ${rotated.previousKid} in ${graceSeconds}s...`);
+  await new Promise((resolve) => setTimeout(resolve, graceSeconds * 1000));
+  await client.revokeKey(agentId, rotated.previousKid, `Rotated to ${rotated.kid}`);
+  const previousKeyFile = path.join(agentDir, cfg.private_key_file ? path.basename(cfg.private_key_file) : 'private.key');
+  await fsp.rm(previousKeyFile, { force: true });
+  console.log(`Key ${rotated.previousKid} revoked.`);
+}
+
 async function cmdStatus(): Promise<void> {
   console.log('Elydora Agent Status\n');
 
@@ -308,6 +478,12 @@ async function main(): Promise<void> {
     case 'uninstall':
       await cmdUninstall(commandArgs);
       break;
+    case 'rotate-token':
+      await cmdRotateToken(commandArgs);
+      break;
+    case 'rotate-key':
+      await cmdRotateKey(commandArgs);
+      break;
     case 'status':
       await cmdStatus();
       break;
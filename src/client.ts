@@ -1,6 +1,21 @@
 import type {
+  ClockSkew,
+  ClockSkewOptions,
+  ServerFeatures,
   ElydoraClientConfig,
+  ChainStateStore,
+  ApiToken,
+  TokenOptions,
+  TokenStore,
+  Signer,
   CreateOperationParams,
+  OperationPayload,
+  CreateAndSubmitResult,
+  ChainResyncEvent,
+  Outbox,
+  OutboxEntry,
+  OutboxFlushResult,
+  RejectedOutboxEntry,
   EOR,
   IntegrationType,
   RegisterAgentRequest,
@@ -11,21 +26,49 @@ import type {
   FreezeAgentResponse,
   UnfreezeAgentResponse,
   DeleteAgentResponse,
+  AddAgentKeyRequest,
+  AgentKeyResponse,
+  RotateKeyOptions,
+  RotateKeyResult,
+  RedactionOptions,
+  RedactedOperation,
+  Disclosure,
+  EncryptionOptions,
+  EncryptionContext,
+  BlobStore,
+  BlobReference,
   SubmitOperationResponse,
+  SubmitOperationsResponse,
+  BatchOperationResult,
   GetOperationResponse,
   VerifyOperationResponse,
+  GetInclusionProofResponse,
+  InclusionVerificationResult,
   AuditQueryRequest,
   AuditQueryResponse,
+  ListRequest,
+  Agent,
+  Operation,
+  Export,
+  AdminEvent,
   ListEpochsResponse,
   GetEpochResponse,
   CreateExportRequest,
   CreateExportResponse,
   ListExportsResponse,
   GetExportResponse,
+  WaitForExportOptions,
+  DownloadExportOptions,
+  Interceptor,
+  JsonSchema,
+  InterceptedRequest,
+  RequestOptions,
   GetMeResponse,
   IssueApiTokenResponse,
   RotateApiTokenResponse,
   JWKSResponse,
+  EAR,
+  ReceiptVerificationResult,
   HealthResponse,
   DeepHealthResponse,
   ListWebhooksResponse,
@@ -36,48 +79,221 @@ import type {
   AuthLoginResponse,
   ErrorResponse,
 } from './types.js';
-import { ElydoraError } from './errors.js';
+import fs from 'node:fs';
+import fsp from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { Readable, Transform } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import type { ReadableStream as WebReadableStream } from 'node:stream/web';
+import {
+  ElydoraError,
+  ElydoraAuthError,
+  ElydoraNetworkError,
+  ElydoraResponseError,
+  ElydoraTimeoutError,
+  ExportFailedError,
+  createElydoraError,
+} from './errors.js';
 import {
   jcsCanonicalise,
   computePayloadHash,
   computeChainHash,
-  signEd25519,
-  derivePublicKey,
+  generateAgentKeyPair,
   ZERO_CHAIN_HASH,
 } from './crypto.js';
-import { uuidv7, generateNonce } from './utils.js';
+import { MemoryChainStateStore } from './chain-state.js';
+import { MemoryTokenStore } from './token-store.js';
+import { SeedSigner } from './signer.js';
+import { redactPayload } from './disclosure.js';
+import { encryptPayload, encryptPayloadAsync } from './encryption.js';
+import { DirectoryBlobStore, offloadPayload, offloadPayloadAsync, resolvePayload } from './blob-store.js';
+import {
+  AGENT_RESPONSE_SCHEMA,
+  AGENT_STATUS_RESPONSE_SCHEMA,
+  AUDIT_QUERY_RESPONSE_SCHEMA,
+  EXPORT_RESPONSE_SCHEMA,
+  GET_EPOCH_RESPONSE_SCHEMA,
+  GET_OPERATION_RESPONSE_SCHEMA,
+  LIST_AGENTS_RESPONSE_SCHEMA,
+  LIST_EPOCHS_RESPONSE_SCHEMA,
+  LIST_EXPORTS_RESPONSE_SCHEMA,
+  SUBMIT_OPERATIONS_RESPONSE_SCHEMA,
+  SUBMIT_OPERATION_RESPONSE_SCHEMA,
+  UPDATE_AGENT_RESPONSE_SCHEMA,
+} from './response-schemas.js';
+import { validateSchema } from './schema.js';
+import {
+  resolveRetryPolicy,
+  isRetryableFailure,
+  computeBackoff,
+  parseRetryAfter,
+} from './retry.js';
+import type { ResolvedRetryPolicy } from './retry.js';
+import { verifyEar, findJwk, verifyInclusionProof } from './verify.js';
+import { uuidv7, generateNonce, defaultKid, nextKid } from './utils.js';
 
 const DEFAULT_BASE_URL = 'https://api.elydora.com';
 const DEFAULT_TTL_MS = 30_000;
 const DEFAULT_MAX_RETRIES = 3;
+const DEFAULT_TIMEOUT_MS = 30_000;
+const JWKS_CACHE_TTL_MS = 3_600_000;
+const JWKS_MIN_REFETCH_MS = 60_000;
+const JWKS_MAX_CACHED_MISSES = 1_024;
+const DEFAULT_BATCH_SIZE = 100;
+const DEFAULT_BATCH_DELAY_MS = 50;
+const DEFAULT_EXPORT_POLL_MS = 1_000;
+const MAX_EXPORT_POLL_MS = 30_000;
+const DEFAULT_TOKEN_REFRESH_MARGIN_MS = 300_000;
+const DEFAULT_KEY_RETIRE_GRACE_MS = 3_600_000;
+const DEFAULT_OFFLOAD_THRESHOLD_BYTES = 262_144;
+const DEFAULT_BLOB_DIR = path.join(os.homedir(), '.elydora', 'blobs');
+const DEFAULT_MAX_CLOCK_CORRECTION_MS = 60_000;
+const DEFAULT_CLOCK_SKEW_WARN_MS = 5_000;
+const CLOCK_SAMPLE_MAX_AGE_MS = 300_000;
+// Date headers have one-second resolution; the true time lies in [date, date + 1000)
+const DATE_HEADER_HALF_RESOLUTION_MS = 500;
+
+interface RequestFlags {
+  /** Safe to repeat even though the method is not (e.g. deduplicated POSTs) */
+  idempotent?: boolean;
+  /** Set by the client once more than one attempt was made */
+  retried?: boolean;
+  /** Checked against successful responses in strict mode */
+  schema?: JsonSchema;
+  /** Bypass token refresh (used by the refresh itself) */
+  skipTokenRefresh?: boolean;
+}
+
+/** stopTimer() cancels only the timeout; dispose() also unlinks the caller's signal. */
+interface AttemptSignal {
+  signal: AbortSignal;
+  stopTimer: () => void;
+  dispose: () => void;
+}
+
+interface CachedJwks {
+  jwks: JWKSResponse;
+  fetchedAt: number;
+  /** kids this fetch was made for and did not contain */
+  misses: Set<string>;
+}
+
+interface SealedOperationParams extends CreateOperationParams {
+  /** Fixed when the payload is encrypted, since the envelope is bound to it */
+  readonly operationId?: string;
+}
 
 export class ElydoraClient {
   private readonly orgId: string;
   private readonly agentId: string;
-  private readonly privateKey: string;
+  private signer: Signer;
   private readonly baseUrl: string;
   private readonly ttlMs: number;
-  private readonly maxRetries: number;
-  private readonly kid: string;
+  private readonly retryPolicy: ResolvedRetryPolicy;
+  private readonly timeoutMs: number;
+  private readonly chainStateStore: ChainStateStore;
+  private readonly autoResync: boolean;
+  private readonly onChainResync: ((event: ChainResyncEvent) => void) | undefined;
+  private readonly outbox: Outbox | undefined;
+  private readonly batching: { maxBatchSize: number; maxDelayMs: number } | undefined;
+  private pendingBatch: Array<{
+    params: CreateOperationParams;
+    resolve: (result: CreateAndSubmitResult) => void;
+    reject: (err: unknown) => void;
+  }> = [];
+  private batchTimer: ReturnType<typeof setTimeout> | undefined;
   private prevChainHash: string;
+  private chainQueue: Promise<unknown> = Promise.resolve();
+  private sealQueue: Promise<unknown> = Promise.resolve();
   private token: string | undefined;
+  private tokenExpiresAt: number | null = null;
+  private tokenId: string | undefined;
+  private readonly tokenStore: TokenStore | undefined;
+  private readonly tokenOptions: TokenOptions | undefined;
+  private tokenRefresh: Promise<ApiToken> | undefined;
+  private jwksCache: CachedJwks | undefined;
+  private jwksRefresh: Promise<CachedJwks> | undefined;
+  private readonly fetchFn: typeof fetch;
+  private readonly interceptors: ReadonlyArray<Interceptor>;
+  private readonly strictResponses: boolean;
+  private readonly encryption: EncryptionOptions | undefined;
+  private readonly offload: { thresholdBytes: number; store: BlobStore } | undefined;
+  private readonly clockSkewOptions: ClockSkewOptions;
+  private readonly features: ServerFeatures;
+  private clockSkew: ClockSkew | null = null;
+  private clockSkewWarned = false;
 
   constructor(config: ElydoraClientConfig) {
     this.orgId = config.orgId;
     this.agentId = config.agentId;
-    this.privateKey = config.privateKey;
     this.baseUrl = (config.baseUrl ?? DEFAULT_BASE_URL).replace(/\/+$/, '');
     this.ttlMs = config.ttlMs ?? DEFAULT_TTL_MS;
-    this.maxRetries = config.maxRetries ?? DEFAULT_MAX_RETRIES;
-    this.kid = config.kid ?? this.agentId + '-key-1';
-    this.prevChainHash = ZERO_CHAIN_HASH;
+    this.retryPolicy = resolveRetryPolicy(config.retry, config.maxRetries ?? DEFAULT_MAX_RETRIES);
+    this.timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    if (config.signer) {
+      this.signer = config.signer;
+    } else if (config.privateKey) {
+      this.signer = new SeedSigner(config.privateKey, config.kid ?? defaultKid(this.agentId));
+    } else {
+      throw new Error('ElydoraClient requires either privateKey or signer');
+    }
+    this.chainStateStore = config.chainStateStore ?? new MemoryChainStateStore();
+    this.prevChainHash = this.chainStateStore.load() ?? ZERO_CHAIN_HASH;
+    this.autoResync = config.autoResync ?? true;
+    this.onChainResync = config.onChainResync;
+    this.outbox = config.outbox;
+    this.fetchFn = config.fetch ?? ((input, init) => fetch(input, init));
+    this.interceptors = config.interceptors ?? [];
+    this.strictResponses = config.strictResponses ?? false;
+    this.encryption = config.encryption;
+    this.offload = config.offload
+      ? {
+        thresholdBytes: config.offload.thresholdBytes ?? DEFAULT_OFFLOAD_THRESHOLD_BYTES,
+        store: config.offload.store ?? new DirectoryBlobStore(DEFAULT_BLOB_DIR),
+      }
+      : undefined;
+    this.clockSkewOptions = config.clockSkew ?? {};
+    this.features = config.features ?? {};
+    this.tokenOptions = config.tokens;
+    if (config.tokens) {
+      this.tokenStore = config.tokens.store ?? new MemoryTokenStore();
+      const stored = this.tokenStore.load();
+      if (stored) {
+        this.useToken(stored);
+      }
+    }
+    this.batching = config.batching
+      ? {
+        maxBatchSize: config.batching.maxBatchSize ?? DEFAULT_BATCH_SIZE,
+        maxDelayMs: config.batching.maxDelayMs ?? DEFAULT_BATCH_DELAY_MS,
+      }
+      : undefined;
   }
 
   /**
    * Set the API token used for authenticated API calls.
+   *
+   * With token management enabled the token is also persisted, and
+   * `expiresAt` (unix ms) schedules its refresh.
    */
-  setToken(token: string): void {
-    this.token = token;
+  setToken(token: string, expiresAt: number | null = null): void {
+    const apiToken: ApiToken = { token, expires_at: expiresAt };
+    this.useToken(apiToken);
+    this.tokenStore?.save(apiToken);
+  }
+
+  /**
+   * Replace the API token now, using the configured `tokens.refresh` or
+   * rotateApiToken. Concurrent calls share a single refresh.
+   */
+  async refreshToken(options?: RequestOptions): Promise<ApiToken> {
+    if (!this.tokenRefresh) {
+      this.tokenRefresh = this.obtainToken(options).finally(() => {
+        this.tokenRefresh = undefined;
+      });
+    }
+    return this.tokenRefresh;
   }
 
   /**
@@ -88,10 +304,10 @@ export class ElydoraClient {
   }
 
   /**
-   * Get the public key derived from the configured private key.
+   * Get the public key of the configured signer.
    */
   getPublicKey(): string {
-    return derivePublicKey(this.privateKey);
+    return this.signer.publicKey;
   }
 
   // -------------------------------------------------------------------------
@@ -144,52 +360,167 @@ export class ElydoraClient {
   // Auth (instance methods — require token)
   // -------------------------------------------------------------------------
 
-  async getMe(): Promise<GetMeResponse> {
-    return this.request<GetMeResponse>('GET', '/v1/auth/me');
+  async getMe(options?: RequestOptions): Promise<GetMeResponse> {
+    return this.request<GetMeResponse>('GET', '/v1/auth/me', undefined, options);
   }
 
-  async issueApiToken(ttlSeconds?: number | null): Promise<IssueApiTokenResponse> {
-    return this.request<IssueApiTokenResponse>('POST', '/v1/auth/token', { ttl_seconds: ttlSeconds ?? null });
+  async issueApiToken(ttlSeconds?: number | null, options?: RequestOptions): Promise<IssueApiTokenResponse> {
+    return this.request<IssueApiTokenResponse>('POST', '/v1/auth/token', { ttl_seconds: ttlSeconds ?? null }, options);
   }
 
-  async rotateApiToken(): Promise<RotateApiTokenResponse> {
-    return this.request<RotateApiTokenResponse>('POST', '/v1/auth/rotate', {});
+  /**
+   * Rotate the current API token. With token management enabled the client
+   * switches to (and persists) the new token.
+   */
+  async rotateApiToken(options?: RequestOptions): Promise<RotateApiTokenResponse> {
+    const res = await this.request<RotateApiTokenResponse>('POST', '/v1/auth/rotate', {}, options, { skipTokenRefresh: true });
+    if (this.tokenStore) {
+      this.useToken(res);
+      this.tokenStore.save(res);
+    }
+    return res;
   }
 
   // -------------------------------------------------------------------------
   // Agent management
   // -------------------------------------------------------------------------
 
-  async registerAgent(request: RegisterAgentRequest): Promise<RegisterAgentResponse> {
-    return this.request<RegisterAgentResponse>('POST', '/v1/agents/register', request);
+  async registerAgent(request: RegisterAgentRequest, options?: RequestOptions): Promise<RegisterAgentResponse> {
+    return this.request<RegisterAgentResponse>('POST', '/v1/agents/register', request, options, { schema: AGENT_RESPONSE_SCHEMA });
+  }
+
+  async getAgent(agentId: string, options?: RequestOptions): Promise<GetAgentResponse> {
+    return this.request<GetAgentResponse>('GET', `/v1/agents/${encodeURIComponent(agentId)}`, undefined, options, { schema: AGENT_RESPONSE_SCHEMA });
+  }
+
+  async updateAgent(agentId: string, integType: IntegrationType, options?: RequestOptions): Promise<UpdateAgentResponse> {
+    return this.request<UpdateAgentResponse>('PATCH', `/v1/agents/${encodeURIComponent(agentId)}`, { integration_type: integType }, options, { schema: UPDATE_AGENT_RESPONSE_SCHEMA });
+  }
+
+  async freezeAgent(agentId: string, reason: string, options?: RequestOptions): Promise<FreezeAgentResponse> {
+    return this.request<FreezeAgentResponse>('POST', `/v1/agents/${encodeURIComponent(agentId)}/freeze`, { reason }, options, { schema: AGENT_STATUS_RESPONSE_SCHEMA });
+  }
+
+  async listAgents(params?: ListRequest, options?: RequestOptions): Promise<ListAgentsResponse> {
+    return this.request<ListAgentsResponse>('GET', `/v1/agents${buildQuery(params)}`, undefined, options, { schema: LIST_AGENTS_RESPONSE_SCHEMA });
   }
 
-  async getAgent(agentId: string): Promise<GetAgentResponse> {
-    return this.request<GetAgentResponse>('GET', `/v1/agents/${encodeURIComponent(agentId)}`);
+  /**
+   * Iterate over every agent in the organization, following cursors.
+   */
+  iterateAgents(params?: ListRequest, options?: RequestOptions): AsyncIterable<Agent> {
+    return paginate(params?.cursor, async (cursor) => {
+      const res = await this.listAgents({ ...params, cursor }, options);
+      return { items: res.agents, cursor: res.cursor };
+    });
+  }
+
+  async unfreezeAgent(agentId: string, reason: string, options?: RequestOptions): Promise<UnfreezeAgentResponse> {
+    return this.request<UnfreezeAgentResponse>('POST', `/v1/agents/${encodeURIComponent(agentId)}/unfreeze`, { reason }, options, { schema: AGENT_STATUS_RESPONSE_SCHEMA });
   }
 
-  async updateAgent(agentId: string, integType: IntegrationType): Promise<UpdateAgentResponse> {
-    return this.request<UpdateAgentResponse>('PATCH', `/v1/agents/${encodeURIComponent(agentId)}`, { integration_type: integType });
+  async deleteAgent(agentId: string, options?: RequestOptions): Promise<DeleteAgentResponse> {
+    return this.request<DeleteAgentResponse>('DELETE', `/v1/agents/${encodeURIComponent(agentId)}`, undefined, options);
   }
 
-  async freezeAgent(agentId: string, reason: string): Promise<FreezeAgentResponse> {
-    return this.request<FreezeAgentResponse>('POST', `/v1/agents/${encodeURIComponent(agentId)}/freeze`, { reason });
+  async revokeKey(agentId: string, kid: string, reason: string, options?: RequestOptions): Promise<void> {
+    await this.request<unknown>('POST', `/v1/agents/${encodeURIComponent(agentId)}/revoke`, { kid, reason }, options);
   }
 
-  async listAgents(): Promise<ListAgentsResponse> {
-    return this.request<ListAgentsResponse>('GET', '/v1/agents');
+  /**
+   * Register an additional public key for an agent.
+   *
+   * @throws Error unless `features.agentKeys` is enabled
+   */
+  async addAgentKey(agentId: string, key: AddAgentKeyRequest, options?: RequestOptions): Promise<AgentKeyResponse> {
+    this.requireAgentKeys();
+    return this.request<AgentKeyResponse>('POST', `/v1/agents/${encodeURIComponent(agentId)}/keys`, key, options);
   }
 
-  async unfreezeAgent(agentId: string, reason: string): Promise<UnfreezeAgentResponse> {
-    return this.request<UnfreezeAgentResponse>('POST', `/v1/agents/${encodeURIComponent(agentId)}/unfreeze`, { reason });
+  /**
+   * Retire an agent key: it stops being accepted for new operations but,
+   * unlike a revoked key, still verifies what it signed before.
+   *
+   * @throws Error unless `features.agentKeys` is enabled
+   */
+  async retireAgentKey(agentId: string, kid: string, options?: RequestOptions): Promise<AgentKeyResponse> {
+    this.requireAgentKeys();
+    return this.request<AgentKeyResponse>('POST', `/v1/agents/${encodeURIComponent(agentId)}/keys/${encodeURIComponent(kid)}/retire`, {}, options);
   }
 
-  async deleteAgent(agentId: string): Promise<DeleteAgentResponse> {
-    return this.request<DeleteAgentResponse>('DELETE', `/v1/agents/${encodeURIComponent(agentId)}`);
+  /**
+   * Rotate this client's agent key without interrupting its chain.
+   *
+   * The new key is registered, a `key.rotate` operation naming both kids is
+   * submitted with the old key, and the client switches signers before any
+   * later chained operation is signed. The old key is retired once
+   * `retirePreviousAfterMs` has passed (default: one hour), leaving time for
+   * operations already signed with it (including outbox entries) to land.
+   * Setting `revokePreviousAfterMs` revokes it after that delay instead.
+   * Neither timer keeps the process alive.
+   *
+   * @throws Error unless `features.agentKeys` is enabled
+   */
+  async rotateKey(options: RotateKeyOptions = {}, requestOptions?: RequestOptions): Promise<RotateKeyResult> {
+    this.requireAgentKeys();
+    const previousKid = this.signer.kid;
+    let privateKey: string | null = null;
+    let signer = options.signer;
+    if (!signer) {
+      const generated = generateAgentKeyPair();
+      privateKey = generated.privateKey;
+      signer = new SeedSigner(generated.privateKey, options.kid ?? nextKid(previousKid));
+    }
+    const nextSigner = signer;
+
+    await this.addAgentKey(this.agentId, {
+      kid: nextSigner.kid,
+      public_key: nextSigner.publicKey,
+      algorithm: 'ed25519',
+    }, requestOptions);
+
+    const result = await this.enqueueChainTask(async () => {
+      const [submitted] = await this.submitChained([{
+        operationType: 'key.rotate',
+        subject: { agent_id: this.agentId },
+        action: { type: 'rotate', previous_kid: previousKid, kid: nextSigner.kid },
+        payload: { public_key: nextSigner.publicKey },
+      }], requestOptions);
+      if (submitted instanceof Error) {
+        throw submitted;
+      }
+      this.signer = nextSigner;
+      return submitted!;
+    });
+
+    let retired: Promise<void> | null = null;
+    let revoked: Promise<void> | null = null;
+    if (options.revokePreviousAfterMs !== undefined) {
+      revoked = afterDelay(options.revokePreviousAfterMs, `revoke previous key ${previousKid}`, async () => {
+        await this.revokeKey(this.agentId, previousKid, options.revokeReason ?? `Rotated to ${nextSigner.kid}`);
+      });
+    } else if (options.retirePreviousAfterMs !== null) {
+      retired = afterDelay(options.retirePreviousAfterMs ?? DEFAULT_KEY_RETIRE_GRACE_MS, `retire previous key ${previousKid}`, async () => {
+        await this.retireAgentKey(this.agentId, previousKid);
+      });
+    }
+
+    return {
+      kid: nextSigner.kid,
+      previousKid,
+      publicKey: nextSigner.publicKey,
+      privateKey,
+      eor: result.eor,
+      receipt: result.receipt,
+      retired,
+      revoked,
+    };
   }
 
-  async revokeKey(agentId: string, kid: string, reason: string): Promise<void> {
-    await this.request<unknown>('POST', `/v1/agents/${encodeURIComponent(agentId)}/revoke`, { kid, reason });
+  private requireAgentKeys(): void {
+    if (!this.features.agentKeys) {
+      throw new Error('Agent key management is not enabled; set features.agentKeys if the server provides POST /v1/agents/:id/keys and POST /v1/agents/:id/keys/:kid/retire');
+    }
   }
 
   // -------------------------------------------------------------------------
@@ -205,245 +536,1378 @@ export class ElydoraClient {
    * 4. Compute chain_hash from prev_chain_hash
    * 5. Construct canonical EOR (minus signature)
    * 6. Sign JCS-canonicalized EOR with Ed25519
-   * 7. Update internal prev_chain_hash
+   * 7. Update internal prev_chain_hash and persist it to the chain state store
+   *
+   * The chain advances immediately, before the EOR is submitted. Use
+   * createAndSubmit() to advance only once the server has accepted it.
+   *
+   * @throws Error if the signer (e.g. ProcessSigner), the encryption KEK or the blob store is asynchronous
    */
-  createOperation(params: CreateOperationParams): EOR {
-    const operationId = uuidv7();
-    const issuedAt = Date.now();
-    const nonce = generateNonce();
-    const payload = params.payload ?? null;
+  createOperation(params: CreateOperationParams<object, object, OperationPayload>): EOR {
+    if (params.redact) {
+      throw new Error('createOperation() cannot return disclosures; use createRedactedOperation() or createAndSubmit()');
+    }
+    return this.createSealedOperation(this.sealParams(params).params);
+  }
 
-    // Compute payload hash
-    const payloadHash = computePayloadHash(payload);
+  /**
+   * Create a signed EOR whose payload fields are replaced by salted
+   * commitments, with only `options.disclose` fields sent in clear.
+   *
+   * Keep the returned disclosures: createDisclosureBundle() selects the ones
+   * an auditor needs to verify individual fields against payload_hash.
+   * createAndSubmit() accepts the same options as `params.redact`.
+   */
+  createRedactedOperation(params: CreateOperationParams<object, object, OperationPayload>, options: RedactionOptions = {}): RedactedOperation {
+    const { params: sealed, disclosures } = this.sealParams({ ...params, redact: options });
+    return { eor: this.createSealedOperation(sealed), disclosures: disclosures! };
+  }
 
-    // Compute chain hash
-    const chainHash = computeChainHash(
-      this.prevChainHash,
-      payloadHash,
-      operationId,
-      issuedAt,
-    );
+  private createSealedOperation(params: SealedOperationParams): EOR {
+    const { unsigned, chainHash } = this.buildOperation(params, this.prevChainHash);
+    const signature = this.signer.sign(Buffer.from(jcsCanonicalise(unsigned), 'utf-8'));
+    if (typeof signature !== 'string') {
+      // The operation is abandoned, so is its signature
+      signature.catch(() => undefined);
+      throw new Error('createOperation() requires a synchronous signer; use createAndSubmit() with this signer');
+    }
 
-    // Construct the EOR without signature for signing
-    const eorWithoutSig: Omit<EOR, 'signature'> = {
-      op_version: '1.0',
-      operation_id: operationId,
-      org_id: this.orgId,
-      agent_id: this.agentId,
-      issued_at: issuedAt,
-      ttl_ms: this.ttlMs,
-      nonce,
-      operation_type: params.operationType,
-      subject: params.subject,
-      action: params.action,
-      payload,
-      payload_hash: payloadHash,
-      prev_chain_hash: this.prevChainHash,
-      agent_pubkey_kid: this.kid,
-    };
+    // Update internal chain state
+    this.advanceChain(chainHash);
 
-    // Sign the JCS-canonicalized EOR (without signature field)
-    const canonical = jcsCanonicalise(eorWithoutSig);
-    const signature = signEd25519(this.privateKey, Buffer.from(canonical, 'utf-8'));
+    return { ...unsigned, signature };
+  }
 
-    // Update internal chain state
-    this.prevChainHash = chainHash;
+  /**
+   * Resolve a payload value such as `eor.payload`: a blob reference is fetched
+   * from the blob store (the configured one, else the default directory) and
+   * verified; other payloads are returned unchanged.
+   *
+   * @throws Error if the blob is missing or does not match its reference, or if the store
+   *   reads asynchronously (use resolvePayloadAsync() with it)
+   */
+  resolvePayload(payload: BlobReference | Record<string, unknown> | string | null): Record<string, unknown> | string | null {
+    return resolvePayload(payload, this.offload?.store ?? new DirectoryBlobStore(DEFAULT_BLOB_DIR));
+  }
 
-    return {
-      ...eorWithoutSig,
-      signature,
-    };
+  /**
+   * Construct, sign and submit an EOR, advancing the local chain only after
+   * the server returns a receipt.
+   *
+   * If submission fails for any reason the chain is left untouched, so the
+   * next operation is signed against the same prev_chain_hash. Calls are
+   * serialized so concurrent invocations still chain in call order.
+   *
+   * On PREV_HASH_MISMATCH (and unless autoResync is disabled) the client
+   * adopts the server's expected prev_chain_hash, reports it through
+   * onChainResync, then re-signs and resubmits the operation once.
+   *
+   * With an outbox configured, pending entries are replayed first, and an
+   * operation that cannot reach the API, or keeps getting a retryable error
+   * (429, 5xx) after all retries, is persisted to the outbox instead of being
+   * lost (the result then has `queued: true` and no receipt).
+   *
+   * With `params.redact`, the result carries the disclosures for the
+   * redacted payload, including when the operation was queued.
+   *
+   * In batching mode `options` is ignored: the shared batch request uses the
+   * client's default timeout.
+   */
+  async createAndSubmit(params: CreateOperationParams<object, object, OperationPayload>, options?: RequestOptions): Promise<CreateAndSubmitResult> {
+    // Seal in call order, so an asynchronous KEK or blob store cannot reorder the chain
+    const sealing = this.sealQueue.then(() => this.sealParamsAsync(params));
+    this.sealQueue = sealing.catch(() => undefined);
+    const { params: sealed, disclosures } = await sealing;
+    let result: CreateAndSubmitResult;
+    if (this.batching) {
+      result = await this.enqueueBatchItem(sealed);
+    } else {
+      const [submitted] = await this.enqueueChainTask(() => this.submitChained([sealed], options));
+      if (submitted instanceof Error) {
+        throw submitted;
+      }
+      result = submitted!;
+    }
+    return disclosures ? { ...result, disclosures } : result;
+  }
+
+  /**
+   * Submit already-signed EORs in a single request.
+   *
+   * The EORs must form a chain in array order. Each item gets its own
+   * receipt or error; the local chain state is not touched.
+   *
+   * Unless `features.batchSubmit` is enabled the EORs are sent one by one to
+   * the single-operation endpoint, stopping at the first API error: later
+   * items have no result.
+   */
+  async submitOperations(eors: EOR[], options?: RequestOptions): Promise<SubmitOperationsResponse> {
+    if (this.features.batchSubmit) {
+      return this.request<SubmitOperationsResponse>('POST', '/v1/operations/batch', { operations: eors }, options, { idempotent: true, schema: SUBMIT_OPERATIONS_RESPONSE_SCHEMA });
+    }
+
+    const results: BatchOperationResult[] = [];
+    for (const eor of eors) {
+      try {
+        const receipt = await this.submitRecoveringReplay(eor, options);
+        results.push(receipt ? { operation_id: eor.operation_id, receipt } : { operation_id: eor.operation_id });
+      } catch (err) {
+        if (!(err instanceof ElydoraError) || err instanceof ElydoraResponseError) {
+          throw err;
+        }
+        results.push({
+          operation_id: eor.operation_id,
+          status: err.statusCode,
+          error: { code: err.code, message: err.message, request_id: err.requestId, details: err.details },
+        });
+        break;
+      }
+    }
+    return { results };
+  }
+
+  /**
+   * Immediately send any createAndSubmit calls waiting in the batching window.
+   */
+  flushBatch(): void {
+    if (this.batchTimer) {
+      clearTimeout(this.batchTimer);
+      this.batchTimer = undefined;
+    }
+
+    const items = this.pendingBatch.splice(0);
+    if (items.length === 0) {
+      return;
+    }
+
+    this.enqueueChainTask(() => this.submitChained(items.map((item) => item.params))).then(
+      (results) => {
+        results.forEach((result, i) => {
+          if (result instanceof Error) {
+            items[i]!.reject(result);
+          } else {
+            items[i]!.resolve(result);
+          }
+        });
+      },
+      (err) => {
+        for (const item of items) item.reject(err);
+      },
+    );
+  }
+
+  /**
+   * Replay the outbox in chain order.
+   *
+   * Entries whose TTL has lapsed (or that no longer link to the chain head)
+   * are re-signed on the current head as explicitly late operations: the
+   * action gains a `late` object carrying the original operation_id and
+   * issued_at. Before an entry is re-signed or the chain resynced, it is
+   * looked up with getOperation(): if the server already stored it (only the
+   * response was lost), it counts as submitted instead.
+   *
+   * Entries the API refuses with a non-retryable error are moved to the
+   * outbox's dead-letter store and reported in `rejected`. Stops at the first
+   * network error or retryable API error, leaving the rest queued.
+   */
+  async flushOutbox(options?: RequestOptions): Promise<OutboxFlushResult> {
+    const outbox = this.outbox;
+    if (!outbox) {
+      throw new Error('No outbox configured');
+    }
+    return this.enqueueChainTask(() => this.replayOutbox(outbox, options));
+  }
+
+  /**
+   * Submit a signed EOR.
+   *
+   * Submissions are retried like idempotent requests: the server deduplicates
+   * by operation_id/nonce, so a retry after a lost response is rejected with
+   * REPLAY_DETECTED. createAndSubmit() and outbox replay recover from that by
+   * looking the operation up; here the error is thrown.
+   */
+  async submitOperation(eor: EOR, options?: RequestOptions): Promise<SubmitOperationResponse> {
+    return this.request<SubmitOperationResponse>('POST', '/v1/operations', eor, options, { idempotent: true, schema: SUBMIT_OPERATION_RESPONSE_SCHEMA });
+  }
+
+  async getOperation(operationId: string, options?: RequestOptions): Promise<GetOperationResponse> {
+    return this.request<GetOperationResponse>('GET', `/v1/operations/${encodeURIComponent(operationId)}`, undefined, options, { schema: GET_OPERATION_RESPONSE_SCHEMA });
   }
 
-  async submitOperation(eor: EOR): Promise<SubmitOperationResponse> {
-    return this.request<SubmitOperationResponse>('POST', '/v1/operations', eor);
+  async verifyOperation(operationId: string, options?: RequestOptions): Promise<VerifyOperationResponse> {
+    return this.request<VerifyOperationResponse>('POST', `/v1/operations/${encodeURIComponent(operationId)}/verify`, {}, options, { idempotent: true });
   }
 
-  async getOperation(operationId: string): Promise<GetOperationResponse> {
-    return this.request<GetOperationResponse>('GET', `/v1/operations/${encodeURIComponent(operationId)}`);
+  /**
+   * Fetch the Merkle inclusion proof for an operation.
+   *
+   * @throws Error unless `features.inclusionProofs` is enabled
+   */
+  async getInclusionProof(operationId: string, options?: RequestOptions): Promise<GetInclusionProofResponse> {
+    if (!this.features.inclusionProofs) {
+      throw new Error('Inclusion proofs are not enabled; set features.inclusionProofs if the server provides GET /v1/operations/:id/proof, or use verifyOperation()');
+    }
+    return this.request<GetInclusionProofResponse>('GET', `/v1/operations/${encodeURIComponent(operationId)}/proof`, undefined, options);
   }
 
-  async verifyOperation(operationId: string): Promise<VerifyOperationResponse> {
-    return this.request<VerifyOperationResponse>('POST', `/v1/operations/${encodeURIComponent(operationId)}/verify`, {});
+  /**
+   * Verify locally that an operation is included in its epoch's Merkle tree.
+   *
+   * Fetches the inclusion proof, the operation and the epoch, then recomputes
+   * the root from the operation's chain_hash and compares it to epoch.root_hash.
+   *
+   * @throws Error unless `features.inclusionProofs` is enabled
+   */
+  async verifyInclusion(operationId: string, options?: RequestOptions): Promise<InclusionVerificationResult> {
+    const { proof } = await this.getInclusionProof(operationId, options);
+    const [{ operation }, { epoch }] = await Promise.all([
+      this.getOperation(operationId, options),
+      this.getEpoch(proof.epoch_id, options),
+    ]);
+    return verifyInclusionProof(proof, operation, epoch);
   }
 
   // -------------------------------------------------------------------------
   // Audit
   // -------------------------------------------------------------------------
 
-  async queryAudit(params: AuditQueryRequest): Promise<AuditQueryResponse> {
-    return this.request<AuditQueryResponse>('POST', '/v1/audit/query', params);
+  async queryAudit(params: AuditQueryRequest, options?: RequestOptions): Promise<AuditQueryResponse> {
+    return this.request<AuditQueryResponse>('POST', '/v1/audit/query', params, options, { idempotent: true, schema: AUDIT_QUERY_RESPONSE_SCHEMA });
+  }
+
+  /**
+   * Iterate over every operation matching the query, following cursors.
+   *
+   * Pages are fetched lazily, so breaking out of a `for await` loop stops
+   * further requests. Rate-limited pages are retried by the request loop.
+   */
+  iterateAudit(params: AuditQueryRequest, options?: RequestOptions): AsyncIterable<Operation> {
+    return paginate(params.cursor, async (cursor) => {
+      const res = await this.queryAudit({ ...params, cursor }, options);
+      return { items: res.operations, cursor: res.cursor };
+    });
   }
 
   // -------------------------------------------------------------------------
   // Epochs
   // -------------------------------------------------------------------------
 
-  async listEpochs(): Promise<ListEpochsResponse> {
-    return this.request<ListEpochsResponse>('GET', '/v1/epochs');
+  async listEpochs(options?: RequestOptions): Promise<ListEpochsResponse> {
+    return this.request<ListEpochsResponse>('GET', '/v1/epochs', undefined, options, { schema: LIST_EPOCHS_RESPONSE_SCHEMA });
   }
 
-  async getEpoch(epochId: string): Promise<GetEpochResponse> {
-    return this.request<GetEpochResponse>('GET', `/v1/epochs/${encodeURIComponent(epochId)}`);
+  async getEpoch(epochId: string, options?: RequestOptions): Promise<GetEpochResponse> {
+    return this.request<GetEpochResponse>('GET', `/v1/epochs/${encodeURIComponent(epochId)}`, undefined, options, { schema: GET_EPOCH_RESPONSE_SCHEMA });
   }
 
   // -------------------------------------------------------------------------
   // Exports
   // -------------------------------------------------------------------------
 
-  async createExport(params: CreateExportRequest): Promise<CreateExportResponse> {
-    return this.request<CreateExportResponse>('POST', '/v1/exports', params);
+  async createExport(params: CreateExportRequest, options?: RequestOptions): Promise<CreateExportResponse> {
+    return this.request<CreateExportResponse>('POST', '/v1/exports', params, options, { schema: EXPORT_RESPONSE_SCHEMA });
   }
 
-  async listExports(): Promise<ListExportsResponse> {
-    return this.request<ListExportsResponse>('GET', '/v1/exports');
+  async listExports(params?: ListRequest, options?: RequestOptions): Promise<ListExportsResponse> {
+    return this.request<ListExportsResponse>('GET', `/v1/exports${buildQuery(params)}`, undefined, options, { schema: LIST_EXPORTS_RESPONSE_SCHEMA });
   }
 
-  async getExport(exportId: string): Promise<GetExportResponse> {
-    return this.request<GetExportResponse>('GET', `/v1/exports/${encodeURIComponent(exportId)}`);
+  /**
+   * Iterate over every export in the organization, following cursors.
+   */
+  iterateExports(params?: ListRequest, options?: RequestOptions): AsyncIterable<Export> {
+    return paginate(params?.cursor, async (cursor) => {
+      const res = await this.listExports({ ...params, cursor }, options);
+      return { items: res.exports, cursor: res.cursor };
+    });
   }
 
-  async downloadExport(exportId: string): Promise<ArrayBuffer> {
-    const url = `${this.baseUrl}/v1/exports/${encodeURIComponent(exportId)}/download`;
-    const headers: Record<string, string> = {};
+  async getExport(exportId: string, options?: RequestOptions): Promise<GetExportResponse> {
+    return this.request<GetExportResponse>('GET', `/v1/exports/${encodeURIComponent(exportId)}`, undefined, options, { schema: EXPORT_RESPONSE_SCHEMA });
+  }
 
-    if (this.token) {
-      headers['Authorization'] = `Bearer ${this.token}`;
+  /**
+   * Download an export's file into memory. `timeoutMs` bounds the wait for the
+   * response headers only; `signal` can cancel the transfer at any point.
+   */
+  async downloadExport(exportId: string, options?: RequestOptions): Promise<ArrayBuffer> {
+    const { res, attempt } = await this.openExportDownload(exportId, options);
+    try {
+      return await res.arrayBuffer();
+    } finally {
+      attempt.dispose();
+    }
+  }
+
+  /**
+   * Poll an export until it is done, backing off between polls.
+   *
+   * @throws ExportFailedError if the export fails
+   * @throws Error if it has not finished within `maxWaitMs`
+   */
+  async waitForExport(exportId: string, options: WaitForExportOptions = {}): Promise<GetExportResponse> {
+    const maxWaitMs = options.maxWaitMs ?? options.timeoutMs;
+    const deadline = maxWaitMs !== undefined ? Date.now() + maxWaitMs : Infinity;
+    let delayMs = options.initialPollMs ?? DEFAULT_EXPORT_POLL_MS;
+
+    for (;;) {
+      const res = await this.getExport(exportId, { signal: options.signal });
+      options.onStatus?.(res.export);
+
+      if (res.export.status === 'done') {
+        return res;
+      }
+      if (res.export.status === 'failed') {
+        throw new ExportFailedError(res.export);
+      }
+      if (Date.now() + delayMs > deadline) {
+        throw new Error(`Export "${exportId}" did not finish within ${maxWaitMs}ms (status: ${res.export.status})`);
+      }
+
+      await sleep(delayMs, options.signal);
+      delayMs = Math.min(delayMs * 2, options.maxPollMs ?? MAX_EXPORT_POLL_MS);
+    }
+  }
+
+  /**
+   * Stream an export's file to disk without buffering it in memory.
+   *
+   * The data is written to `<destPath>.part` and renamed into place once the
+   * download completes. `timeoutMs` bounds the wait for the response headers
+   * only; `signal` can cancel the transfer at any point.
+   */
+  async downloadExportToFile(
+    exportId: string,
+    destPath: string,
+    options: DownloadExportOptions = {},
+  ): Promise<{ path: string; bytes: number }> {
+    const { res, attempt } = await this.openExportDownload(exportId, options);
+    if (!res.body) {
+      attempt.dispose();
+      throw new Error(`Export "${exportId}" download returned an empty body`);
     }
 
-    const res = await fetch(url, { method: 'GET', headers });
+    const lengthHeader = res.headers.get('Content-Length');
+    const totalBytes = lengthHeader ? parseInt(lengthHeader, 10) : null;
+    let bytes = 0;
+
+    const progress = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        bytes += chunk.length;
+        options.onProgress?.(bytes, totalBytes);
+        callback(null, chunk);
+      },
+    });
 
-    if (!res.ok) {
-      return handleResponse<never>(res);
+    const partPath = destPath + '.part';
+    try {
+      await pipeline(
+        Readable.fromWeb(res.body as WebReadableStream<Uint8Array>),
+        progress,
+        fs.createWriteStream(partPath),
+      );
+      await fsp.rename(partPath, destPath);
+    } catch (err) {
+      await fsp.rm(partPath, { force: true });
+      throw err;
+    } finally {
+      attempt.dispose();
     }
 
-    return res.arrayBuffer();
+    return { path: destPath, bytes };
+  }
+
+  /**
+   * Request an export's file, refreshing the token like request() does, and
+   * return the successful response once its headers are in. The attempt's
+   * timeout is stopped; the caller disposes the attempt after reading the body.
+   */
+  private async openExportDownload(
+    exportId: string,
+    options?: RequestOptions,
+  ): Promise<{ res: Response; attempt: AttemptSignal }> {
+    return this.withTokenRefresh(async () => {
+      const url = `${this.baseUrl}/v1/exports/${encodeURIComponent(exportId)}/download`;
+      const headers: Record<string, string> = {};
+
+      if (this.token) {
+        headers['Authorization'] = `Bearer ${this.token}`;
+      }
+
+      const attempt = this.attemptSignal(options);
+      try {
+        const res = await this.send({ method: 'GET', url, headers, signal: attempt.signal });
+        attempt.stopTimer();
+
+        if (!res.ok) {
+          return await handleResponse<never>(res);
+        }
+        return { res, attempt };
+      } catch (err) {
+        attempt.dispose();
+        throw err;
+      }
+    }, options);
+  }
+
+  /**
+   * Create an export, wait for it to complete and stream it to `destPath`.
+   *
+   * `timeoutMs` applies to each HTTP attempt; bound the overall wait with
+   * `maxWaitMs`.
+   */
+  async exportAndDownload(
+    params: CreateExportRequest,
+    destPath: string,
+    options: WaitForExportOptions & DownloadExportOptions = {},
+  ): Promise<{ export: Export; path: string; bytes: number }> {
+    const created = await this.createExport(params, { signal: options.signal });
+    const { export: exp } = await this.waitForExport(created.export.export_id, { ...options, timeoutMs: undefined });
+    const file = await this.downloadExportToFile(exp.export_id, destPath, options);
+    return { export: exp, ...file };
   }
 
   // -------------------------------------------------------------------------
   // JWKS
   // -------------------------------------------------------------------------
 
-  async getJWKS(): Promise<JWKSResponse> {
+  async getJWKS(options?: RequestOptions): Promise<JWKSResponse> {
     const url = `${this.baseUrl}/.well-known/elydora/jwks.json`;
-    const res = await fetch(url, {
-      method: 'GET',
-      headers: { 'Accept': 'application/json' },
-    });
-    return handleResponse<JWKSResponse>(res);
+    return this.requestPublic<JWKSResponse>(url, options);
+  }
+
+  /**
+   * Verify an Elydora Acknowledgement Receipt against the server's JWKS.
+   *
+   * The JWKS is fetched once and cached for an hour. An unknown elydora_kid
+   * triggers an early re-fetch at most once a minute, and a kid still missing
+   * from the JWKS fetched for it does not trigger another, so receipts with
+   * forged kids cannot drive requests to the JWKS endpoint.
+   */
+  async verifyReceipt(receipt: EAR, options?: RequestOptions): Promise<ReceiptVerificationResult> {
+    const kid = receipt.elydora_kid;
+    let cached = this.jwksCache;
+    const age = cached ? Date.now() - cached.fetchedAt : Infinity;
+
+    if (
+      !cached ||
+      age > JWKS_CACHE_TTL_MS ||
+      (age >= JWKS_MIN_REFETCH_MS && !cached.misses.has(kid) && !findJwk(cached.jwks, kid))
+    ) {
+      cached = await this.refreshJwks(options);
+      if (!findJwk(cached.jwks, kid) && cached.misses.size < JWKS_MAX_CACHED_MISSES) {
+        cached.misses.add(kid);
+      }
+    }
+
+    return verifyEar(receipt, cached.jwks);
   }
 
   // -------------------------------------------------------------------------
   // Health
   // -------------------------------------------------------------------------
 
-  async health(): Promise<HealthResponse> {
+  async health(options?: RequestOptions): Promise<HealthResponse> {
     const url = `${this.baseUrl}/v1/health`;
-    const res = await fetch(url, {
-      method: 'GET',
-      headers: { 'Accept': 'application/json' },
-    });
-    return handleResponse<HealthResponse>(res);
+    const sentAt = Date.now();
+    const health = await this.requestPublic<HealthResponse>(url, options);
+    if (typeof health.timestamp === 'number' && Number.isFinite(health.timestamp)) {
+      // Accept timestamps in seconds as well as milliseconds
+      const serverTime = health.timestamp < 1e12 ? health.timestamp * 1000 : health.timestamp;
+      this.recordClockSample(serverTime, sentAt, Date.now(), 0, 'health');
+    }
+    return health;
   }
 
-  async deepHealth(): Promise<DeepHealthResponse> {
+  async deepHealth(options?: RequestOptions): Promise<DeepHealthResponse> {
     const url = `${this.baseUrl}/v1/health/deep`;
-    const res = await fetch(url, { method: 'GET', headers: { 'Accept': 'application/json' } });
-    return handleResponse<DeepHealthResponse>(res);
+    return this.requestPublic<DeepHealthResponse>(url, options);
+  }
+
+  // -------------------------------------------------------------------------
+  // Clock skew
+  // -------------------------------------------------------------------------
+
+  /**
+   * The latest server clock offset, or null before any response was measured.
+   *
+   * Every response's Date header is sampled; health() gives a finer reading.
+   */
+  getClockSkew(): ClockSkew | null {
+    return this.clockSkew;
+  }
+
+  /**
+   * Measure the clock offset against the health endpoint's timestamp.
+   */
+  async syncClock(options?: RequestOptions): Promise<ClockSkew | null> {
+    await this.health(options);
+    return this.clockSkew;
   }
 
   // -------------------------------------------------------------------------
   // Webhooks
   // -------------------------------------------------------------------------
 
-  async listWebhooks(): Promise<ListWebhooksResponse> {
-    return this.request<ListWebhooksResponse>('GET', '/v1/webhooks');
+  async listWebhooks(options?: RequestOptions): Promise<ListWebhooksResponse> {
+    return this.request<ListWebhooksResponse>('GET', '/v1/webhooks', undefined, options);
   }
 
-  async registerWebhook(endpointUrl: string, events: string[], secret: string): Promise<RegisterWebhookResponse> {
-    return this.request<RegisterWebhookResponse>('POST', '/v1/webhooks', { endpoint_url: endpointUrl, events, secret });
+  async registerWebhook(endpointUrl: string, events: string[], secret: string, options?: RequestOptions): Promise<RegisterWebhookResponse> {
+    return this.request<RegisterWebhookResponse>('POST', '/v1/webhooks', { endpoint_url: endpointUrl, events, secret }, options);
   }
 
-  async deleteWebhook(webhookId: string): Promise<void> {
-    await this.request<unknown>('DELETE', `/v1/webhooks/${encodeURIComponent(webhookId)}`);
+  async deleteWebhook(webhookId: string, options?: RequestOptions): Promise<void> {
+    await this.request<unknown>('DELETE', `/v1/webhooks/${encodeURIComponent(webhookId)}`, undefined, options);
   }
 
   // -------------------------------------------------------------------------
   // Members
   // -------------------------------------------------------------------------
 
-  async listMembers(): Promise<ListMembersResponse> {
-    return this.request<ListMembersResponse>('GET', '/v1/members');
+  async listMembers(options?: RequestOptions): Promise<ListMembersResponse> {
+    return this.request<ListMembersResponse>('GET', '/v1/members', undefined, options);
   }
 
   // -------------------------------------------------------------------------
   // Admin events
   // -------------------------------------------------------------------------
 
-  async listAdminEvents(limit?: number): Promise<ListAdminEventsResponse> {
-    const query = limit ? `?limit=${limit}` : '';
-    return this.request<ListAdminEventsResponse>('GET', `/v1/admin/events${query}`);
+  async listAdminEvents(params?: number | ListRequest, options?: RequestOptions): Promise<ListAdminEventsResponse> {
+    const query = buildQuery(typeof params === 'number' ? { limit: params } : params);
+    return this.request<ListAdminEventsResponse>('GET', `/v1/admin/events${query}`, undefined, options);
+  }
+
+  /**
+   * Iterate over every admin event, following cursors.
+   */
+  iterateAdminEvents(params?: ListRequest, options?: RequestOptions): AsyncIterable<AdminEvent> {
+    return paginate(params?.cursor, async (cursor) => {
+      const res = await this.listAdminEvents({ ...params, cursor }, options);
+      return { items: res.events, cursor: res.cursor };
+    });
   }
 
   // -------------------------------------------------------------------------
-  // Internal HTTP helpers
+  // Internal chain helpers
   // -------------------------------------------------------------------------
 
-  private async request<T>(
-    method: string,
-    path: string,
-    body?: unknown,
-  ): Promise<T> {
-    const url = `${this.baseUrl}${path}`;
-    const headers: Record<string, string> = {
-      'Accept': 'application/json',
-    };
-
-    if (this.token) {
-      headers['Authorization'] = `Bearer ${this.token}`;
+  /**
+   * Redact, encrypt or offload the payload if oversized, as requested and
+   * configured. Done once per operation, so re-signing after a resync reuses
+   * the same payload (and the same disclosures stay valid).
+   *
+   * Redacted payloads are never offloaded: auditors verify disclosures
+   * against the commitments in the EOR itself.
+   *
+   * @throws Error if subject, action or an object payload is an array, or if the KEK or blob store is asynchronous
+   */
+  private sealParams(
+    params: CreateOperationParams<object, object, OperationPayload>,
+  ): { params: SealedOperationParams; disclosures?: Disclosure[] } {
+    const prepared = this.prepareParams(params);
+    if (prepared.disclosures || !this.encryption) {
+      return prepared.disclosures ? prepared : { params: this.offloadIfOversized(prepared.params) };
+    }
+    const operationId = uuidv7();
+    const payload = encryptPayload(prepared.params.payload ?? null, this.encryption.kek, this.encryptionContextFor(operationId));
+    return { params: this.offloadIfOversized({ ...prepared.params, payload: { ...payload }, operationId }) };
+  }
+
+  /**
+   * sealParams() for the asynchronous paths, which accept asynchronous KEKs
+   * and blob stores.
+   */
+  private async sealParamsAsync(
+    params: CreateOperationParams<object, object, OperationPayload>,
+  ): Promise<{ params: SealedOperationParams; disclosures?: Disclosure[] }> {
+    const prepared = this.prepareParams(params);
+    if (prepared.disclosures || !this.encryption) {
+      return prepared.disclosures ? prepared : { params: await this.offloadIfOversizedAsync(prepared.params) };
+    }
+    const operationId = uuidv7();
+    const payload = await encryptPayloadAsync(prepared.params.payload ?? null, this.encryption.kek, this.encryptionContextFor(operationId));
+    return { params: await this.offloadIfOversizedAsync({ ...prepared.params, payload: { ...payload }, operationId }) };
+  }
+
+  /**
+   * Check subject, action and payload, and redact the payload if requested.
+   */
+  private prepareParams(
+    params: CreateOperationParams<object, object, OperationPayload>,
+  ): { params: SealedOperationParams; disclosures?: Disclosure[] } {
+    const { redact } = params;
+    const rest = {
+      operationType: params.operationType,
+      subject: asRecord(params.subject, 'subject'),
+      action: asRecord(params.action, 'action'),
+    };
+    const payload = typeof params.payload === 'object' && params.payload !== null
+      ? asRecord(params.payload, 'payload')
+      : params.payload ?? null;
+    if (redact) {
+      if (typeof payload !== 'object' || payload === null) {
+        throw new Error('Redaction requires an object payload');
+      }
+      if (this.encryption) {
+        throw new Error('Redaction cannot be combined with payload encryption');
+      }
+      const redacted = redactPayload(payload, redact.disclose);
+      return { params: { ...rest, payload: redacted.payload }, disclosures: redacted.disclosures };
+    }
+    return { params: { ...rest, payload } };
+  }
+
+  private encryptionContextFor(operationId: string): EncryptionContext {
+    return { org_id: this.orgId, agent_id: this.agentId, operation_id: operationId };
+  }
+
+  private offloadIfOversized(params: SealedOperationParams): SealedOperationParams {
+    const payload = params.payload ?? null;
+    if (!this.offload || Buffer.byteLength(jcsCanonicalise(payload), 'utf-8') <= this.offload.thresholdBytes) {
+      return params;
+    }
+    return { ...params, payload: { ...offloadPayload(payload, this.offload.store) } };
+  }
+
+  private async offloadIfOversizedAsync(params: SealedOperationParams): Promise<SealedOperationParams> {
+    const payload = params.payload ?? null;
+    if (!this.offload || Buffer.byteLength(jcsCanonicalise(payload), 'utf-8') <= this.offload.thresholdBytes) {
+      return params;
+    }
+    return { ...params, payload: { ...await offloadPayloadAsync(payload, this.offload.store) } };
+  }
+
+  /**
+   * Build and sign an EOR on top of the given prev_chain_hash without
+   * touching the client's chain state.
+   */
+  private async signOperation(
+    params: SealedOperationParams,
+    prevChainHash: string,
+  ): Promise<{ eor: EOR; chainHash: string }> {
+    const { unsigned, chainHash } = this.buildOperation(params, prevChainHash);
+    // Sign the JCS-canonicalized EOR (without signature field)
+    const signature = await this.signer.sign(Buffer.from(jcsCanonicalise(unsigned), 'utf-8'));
+    return { eor: { ...unsigned, signature }, chainHash };
+  }
+
+  /**
+   * The EOR for params on top of prevChainHash, minus its signature.
+   */
+  private buildOperation(
+    params: SealedOperationParams,
+    prevChainHash: string,
+  ): { unsigned: Omit<EOR, 'signature'>; chainHash: string } {
+    const operationId = params.operationId ?? uuidv7();
+    const issuedAt = this.now();
+    const nonce = generateNonce();
+    const payload = params.payload ?? null;
+
+    // Compute payload hash
+    const payloadHash = computePayloadHash(payload);
+
+    // Compute chain hash
+    const chainHash = computeChainHash(
+      prevChainHash,
+      payloadHash,
+      operationId,
+      issuedAt,
+    );
+
+    // Construct the EOR without signature for signing
+    const unsigned: Omit<EOR, 'signature'> = {
+      op_version: '1.0',
+      operation_id: operationId,
+      org_id: this.orgId,
+      agent_id: this.agentId,
+      issued_at: issuedAt,
+      ttl_ms: this.ttlMs,
+      nonce,
+      operation_type: params.operationType,
+      subject: params.subject,
+      action: params.action,
+      payload,
+      payload_hash: payloadHash,
+      prev_chain_hash: prevChainHash,
+      agent_pubkey_kid: this.signer.kid,
+    };
+
+    return { unsigned, chainHash };
+  }
+
+  private enqueueBatchItem(params: CreateOperationParams): Promise<CreateAndSubmitResult> {
+    const batching = this.batching!;
+    return new Promise((resolve, reject) => {
+      this.pendingBatch.push({ params, resolve, reject });
+      if (this.pendingBatch.length >= batching.maxBatchSize) {
+        this.flushBatch();
+      } else if (!this.batchTimer) {
+        this.batchTimer = setTimeout(() => this.flushBatch(), batching.maxDelayMs);
+      }
+    });
+  }
+
+  /**
+   * Sign params in order on the current chain head and deliver them,
+   * returning a result or error per item.
+   *
+   * - Pending outbox entries are replayed first; if the API is unreachable
+   *   or keeps failing with a retryable error, the new items are queued
+   *   behind them, any other failure is thrown
+   * - On PREV_HASH_MISMATCH the chain is resynced (once) and the failed item
+   *   and everything after it are re-signed and delivered again
+   * - On a network error, or a retryable API error (429, 5xx) that outlasted
+   *   the retries, undelivered items go to the outbox if configured
+   * - An item the API refuses gets its error; the items after it are
+   *   re-signed on the accepted chain head and delivered
+   */
+  private async submitChained(
+    paramsList: CreateOperationParams[],
+    options?: RequestOptions,
+  ): Promise<Array<CreateAndSubmitResult | Error>> {
+    if (this.outbox && (await this.outbox.list()).length > 0) {
+      try {
+        await this.replayOutbox(this.outbox, options);
+      } catch (err) {
+        if (options?.signal?.aborted || !isTransientFailure(err)) {
+          throw err;
+        }
+        // Keep chain order: queue behind the entries that are still pending
+        return this.queueOperations(this.outbox, await this.signChain(paramsList, this.prevChainHash));
+      }
+    }
+
+    const results: Array<CreateAndSubmitResult | Error> = [];
+    let resynced = false;
+    let pending = await this.signChain(paramsList, this.prevChainHash);
+    while (pending.length > 0) {
+      let delivered: { accepted: CreateAndSubmitResult[]; error?: ElydoraError };
+      try {
+        delivered = await this.deliverChain(pending, options);
+      } catch (err) {
+        if (this.outbox && isTransientFailure(err)) {
+          return [...results, ...(await this.queueOperations(this.outbox, pending))];
+        }
+        throw err;
+      }
+
+      results.push(...delivered.accepted);
+      const { error } = delivered;
+      if (!error) {
+        break;
+      }
+
+      // Index in paramsList of the item the API did not accept
+      const failed = results.length;
+      const expected = this.autoResync && !resynced ? extractExpectedPrevChainHash(error) : null;
+      if (expected) {
+        resynced = true;
+        this.resyncChain(expected, error);
+        pending = await this.signChain(paramsList.slice(failed), this.prevChainHash);
+      } else if (this.outbox && isTransientFailure(error)) {
+        // Keep what the API could not take for now, like a network failure
+        return [...results, ...(await this.queueOperations(this.outbox, pending.slice(delivered.accepted.length)))];
+      } else {
+        results.push(error);
+        pending = await this.signChain(paramsList.slice(failed + 1), this.prevChainHash);
+      }
+    }
+    return results;
+  }
+
+  private async signChain(
+    paramsList: CreateOperationParams[],
+    prevChainHash: string,
+  ): Promise<Array<{ eor: EOR; chainHash: string }>> {
+    const signed: Array<{ eor: EOR; chainHash: string }> = [];
+    let prev = prevChainHash;
+    for (const params of paramsList) {
+      const next = await this.signOperation(params, prev);
+      signed.push(next);
+      prev = next.chainHash;
+    }
+    return signed;
+  }
+
+  /**
+   * Deliver signed EORs and advance the chain over the accepted prefix.
+   *
+   * A lone EOR goes to the single-operation endpoint. Returns the results for
+   * the accepted prefix and the API error for the first item that was not
+   * accepted; the items after it chain from it, so were not accepted either.
+   * Network errors are thrown.
+   */
+  private async deliverChain(
+    signed: Array<{ eor: EOR; chainHash: string }>,
+    options?: RequestOptions,
+  ): Promise<{ accepted: CreateAndSubmitResult[]; error?: ElydoraError }> {
+    let results: BatchOperationResult[];
+    try {
+      if (signed.length === 1 && !this.batching) {
+        const receipt = await this.submitRecoveringReplay(signed[0]!.eor, options);
+        results = [{ operation_id: signed[0]!.eor.operation_id, ...(receipt ? { receipt } : {}) }];
+      } else {
+        ({ results } = await this.submitOperations(signed.map((s) => s.eor), options));
+      }
+    } catch (err) {
+      // A malformed response may stand for an accepted operation, so it is not a per-item error
+      if (err instanceof ElydoraError && !(err instanceof ElydoraResponseError)) {
+        return { accepted: [], error: err };
+      }
+      throw err;
+    }
+
+    const byId = new Map(results.map((r) => [r.operation_id, r]));
+    const accepted: CreateAndSubmitResult[] = [];
+    for (const { eor, chainHash } of signed) {
+      const item = byId.get(eor.operation_id);
+      if (!item) {
+        throw new ElydoraResponseError(200, 'POST /v1/operations/batch', [`$.results: no result for operation "${eor.operation_id}"`]);
+      }
+      if (item.error) {
+        return {
+          accepted,
+          error: createElydoraError(item.status ?? 400, item.error.code, item.error.message, item.error.request_id, item.error.details),
+        };
+      }
+      // Server accepted — safe to advance local chain state
+      this.advanceChain(chainHash);
+      accepted.push({ eor, receipt: item.receipt ?? null, queued: false });
+    }
+    return { accepted };
+  }
+
+  private resyncChain(
+    expected: { chainHash: string; source: ChainResyncEvent['source'] },
+    err: ElydoraError,
+  ): void {
+    const event: ChainResyncEvent = {
+      agentId: this.agentId,
+      localPrevChainHash: this.prevChainHash,
+      serverPrevChainHash: expected.chainHash,
+      source: expected.source,
+      requestId: err.requestId,
+    };
+    this.advanceChain(expected.chainHash);
+    this.onChainResync?.(event);
+  }
+
+  /**
+   * Persist signed EORs to the outbox; the chain advances past them so later
+   * operations are queued in order behind them.
+   */
+  private async queueOperations(
+    outbox: Outbox,
+    signed: Array<{ eor: EOR; chainHash: string }>,
+  ): Promise<CreateAndSubmitResult[]> {
+    const results: CreateAndSubmitResult[] = [];
+    for (const { eor, chainHash } of signed) {
+      await outbox.append({ eor, chainHash, enqueuedAt: Date.now() });
+      this.advanceChain(chainHash);
+      results.push({ eor, receipt: null, queued: true });
+    }
+    return results;
+  }
+
+  private async replayOutbox(outbox: Outbox, options?: RequestOptions): Promise<OutboxFlushResult> {
+    const entries = await outbox.list();
+    const originalIds = new Set(entries.map((e) => e.eor.operation_id));
+    const receipts: EAR[] = [];
+    const rejected: RejectedOutboxEntry[] = [];
+    let submitted = 0;
+    let reissued = 0;
+    let head = entries[0]?.eor.prev_chain_hash ?? this.prevChainHash;
+
+    for (let i = 0; i < entries.length;) {
+      // An earlier attempt may have been accepted with only its response lost;
+      // re-signing it then would store the event twice
+      let entry = entries[i]!;
+      let result: EAR | null | ElydoraError | undefined;
+      if (entry.eor.prev_chain_hash !== head || isExpired(entry.eor, this.now())) {
+        if (await this.isStored(entry.eor, options)) {
+          result = null;
+        } else {
+          entry = await this.reissueOutboxEntry(outbox, entries, i, head);
+        }
+      }
+
+      if (result === undefined) {
+        result = await this.submitOutboxEntry(entry, options);
+        const expected = extractExpectedPrevChainHash(result);
+        if (expected || (result instanceof ElydoraError && result.code === 'TTL_EXPIRED')) {
+          if (await this.isStored(entry.eor, options)) {
+            result = null;
+          } else {
+            if (expected) {
+              this.resyncChain(expected, result as ElydoraError);
+              head = expected.chainHash;
+            }
+            entry = await this.reissueOutboxEntry(outbox, entries, i, head);
+            result = await this.submitOutboxEntry(entry, options);
+          }
+        }
+      }
+
+      if (result instanceof ElydoraError) {
+        // Set the entry aside; the ones behind it are re-signed on `head`
+        const dead: RejectedOutboxEntry = {
+          ...entry,
+          rejectedAt: Date.now(),
+          error: { statusCode: result.statusCode, code: result.code, message: result.message, requestId: result.requestId },
+        };
+        await (outbox.reject ? outbox.reject(entry.eor.operation_id, dead) : outbox.remove(entry.eor.operation_id));
+        entries.splice(i, 1);
+        rejected.push(dead);
+        continue;
+      }
+
+      await outbox.remove(entry.eor.operation_id);
+      head = entry.chainHash;
+      submitted++;
+      if (result) receipts.push(result);
+      if (!originalIds.has(entry.eor.operation_id)) reissued++;
+      i++;
+    }
+
+    // A rejected tail entry leaves the local chain ahead of the server
+    if (head !== this.prevChainHash) {
+      this.advanceChain(head);
+    }
+    return { submitted, reissued, receipts, rejected };
+  }
+
+  /**
+   * submitOperation(), except that a retry answered with REPLAY_DETECTED
+   * counts as accepted if the server holds this exact EOR. Its receipt went to
+   * the attempt whose response was lost, so null is returned instead.
+   */
+  private async submitRecoveringReplay(eor: EOR, options?: RequestOptions): Promise<EAR | null> {
+    const flags: RequestFlags = { idempotent: true, retried: false, schema: SUBMIT_OPERATION_RESPONSE_SCHEMA };
+    try {
+      const { receipt } = await this.request<SubmitOperationResponse>('POST', '/v1/operations', eor, options, flags);
+      return receipt;
+    } catch (err) {
+      if (flags.retried && err instanceof ElydoraError && err.code === 'REPLAY_DETECTED' && await this.isStored(eor, options)) {
+        return null;
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * Whether the server already holds this exact EOR, e.g. because an earlier
+   * submission was accepted but its response never arrived.
+   */
+  private async isStored(eor: EOR, options?: RequestOptions): Promise<boolean> {
+    try {
+      const { operation } = await this.getOperation(eor.operation_id, options);
+      return operation.signature === eor.signature;
+    } catch (err) {
+      if (err instanceof ElydoraError && err.code === 'NOT_FOUND') {
+        return false;
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * Submit an outbox entry. REPLAY_DETECTED means an earlier attempt reached
+   * the server after all, so the entry counts as delivered (without a receipt).
+   *
+   * Other non-retryable API errors are returned; network errors, retryable
+   * API errors (429, 5xx) and malformed responses are thrown and leave the
+   * entry queued.
+   */
+  private async submitOutboxEntry(entry: OutboxEntry, options?: RequestOptions): Promise<EAR | null | ElydoraError> {
+    try {
+      const { receipt } = await this.submitOperation(entry.eor, options);
+      return receipt;
+    } catch (err) {
+      if (err instanceof ElydoraError && err.code === 'REPLAY_DETECTED') {
+        return null;
+      }
+      if (err instanceof ElydoraError && !err.isRetryable && !(err instanceof ElydoraResponseError)) {
+        return err;
+      }
+      throw err;
+    }
+  }
+
+  /**
+   * Re-sign entries[index] as a late operation chained from `head` and
+   * rewrite it in the outbox. Entries behind it are re-signed in turn once
+   * it is delivered; the local chain moves only when it is the tail.
+   */
+  private async reissueOutboxEntry(
+    outbox: Outbox,
+    entries: OutboxEntry[],
+    index: number,
+    head: string,
+  ): Promise<OutboxEntry> {
+    const entry = entries[index]!;
+    const original = entry.eor;
+    const late = original.action.late ?? {
+      original_operation_id: original.operation_id,
+      original_issued_at: original.issued_at,
+    };
+    const signed = await this.signOperation({
+      operationType: original.operation_type,
+      subject: original.subject,
+      action: { ...original.action, late },
+      payload: original.payload,
+    }, head);
+
+    const reissued: OutboxEntry = { eor: signed.eor, chainHash: signed.chainHash, enqueuedAt: entry.enqueuedAt };
+    await outbox.replace(original.operation_id, reissued);
+    entries[index] = reissued;
+    if (index === entries.length - 1) {
+      this.advanceChain(signed.chainHash);
+    }
+    return reissued;
+  }
+
+  /**
+   * Run chain-advancing work one task at a time, in call order.
+   */
+  private enqueueChainTask<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.chainQueue.then(task, task);
+    this.chainQueue = run.catch(() => undefined);
+    return run;
+  }
+
+  private advanceChain(chainHash: string): void {
+    this.chainStateStore.save(chainHash);
+    this.prevChainHash = chainHash;
+  }
+
+  // -------------------------------------------------------------------------
+  // Internal HTTP helpers
+  // -------------------------------------------------------------------------
+
+  /**
+   * Local time corrected by the measured server clock offset.
+   */
+  private now(): number {
+    return Date.now() + (this.clockSkew?.correctionMs ?? 0);
+  }
+
+  /**
+   * Record a server clock reading taken between `sentAt` and `receivedAt`.
+   *
+   * The server is assumed to have stamped the midpoint of the round trip. A
+   * sample replaces the current one if it is at least as precise, or if the
+   * current one is stale. The correction is clamped to maxCorrectionMs and
+   * only applied once the offset exceeds the measurement's uncertainty.
+   */
+  private recordClockSample(
+    serverTime: number,
+    sentAt: number,
+    receivedAt: number,
+    resolutionMs: number,
+    source: ClockSkew['source'],
+  ): void {
+    const offsetMs = Math.round(serverTime - (sentAt + receivedAt) / 2);
+    const uncertaintyMs = Math.ceil((receivedAt - sentAt) / 2) + resolutionMs;
+    const current = this.clockSkew;
+    if (current && uncertaintyMs > current.uncertaintyMs && receivedAt - current.measuredAt < CLOCK_SAMPLE_MAX_AGE_MS) {
+      return;
+    }
+
+    const maxCorrectionMs = this.clockSkewOptions.maxCorrectionMs ?? DEFAULT_MAX_CLOCK_CORRECTION_MS;
+    const correctionMs = Math.abs(offsetMs) > uncertaintyMs
+      ? Math.max(-maxCorrectionMs, Math.min(maxCorrectionMs, offsetMs))
+      : 0;
+    const skew: ClockSkew = { offsetMs, uncertaintyMs, source, measuredAt: receivedAt, correctionMs };
+    this.clockSkew = skew;
+
+    // Warn once each time the skew crosses the threshold
+    const exceeded = Math.abs(offsetMs) - uncertaintyMs > (this.clockSkewOptions.warnThresholdMs ?? DEFAULT_CLOCK_SKEW_WARN_MS);
+    if (exceeded && !this.clockSkewWarned) {
+      if (this.clockSkewOptions.onSkew) {
+        this.clockSkewOptions.onSkew(skew);
+      } else {
+        process.emitWarning(
+          `Local clock is ${offsetMs > 0 ? 'behind' : 'ahead of'} the Elydora server by ${Math.abs(offsetMs)}ms `
+            + `(±${uncertaintyMs}ms); correcting issued_at by ${correctionMs}ms`,
+          'ElydoraClockSkewWarning',
+        );
+      }
+    }
+    this.clockSkewWarned = exceeded;
+  }
+
+  /**
+   * Perform a single HTTP exchange through the configured fetch and interceptors.
+   *
+   * beforeRequest interceptors run in order and may mutate or replace the
+   * request; afterResponse interceptors run in order and may replace the
+   * response; onError interceptors see transport failures before they propagate.
+   */
+  private async send(request: Omit<InterceptedRequest, 'attempt'> & { attempt?: number }): Promise<Response> {
+    let req: InterceptedRequest = { attempt: 0, ...request };
+
+    for (const interceptor of this.interceptors) {
+      if (interceptor.beforeRequest) {
+        req = (await interceptor.beforeRequest(req)) ?? req;
+      }
+    }
+
+    let res: Response;
+    const sentAt = Date.now();
+    try {
+      res = await this.fetchFn(req.url, {
+        method: req.method,
+        headers: req.headers,
+        body: req.body,
+        signal: req.signal,
+      });
+    } catch (err) {
+      for (const interceptor of this.interceptors) {
+        await interceptor.onError?.(err, req);
+      }
+      // Timeouts already carry an ElydoraTimeoutError; caller aborts propagate unchanged
+      if (err instanceof ElydoraNetworkError || req.signal?.aborted) {
+        throw err;
+      }
+      throw new ElydoraNetworkError(
+        `Request to ${req.url} failed: ${err instanceof Error ? err.message : String(err)}`,
+        { cause: err },
+      );
+    }
+
+    const date = Date.parse(res.headers.get('date') ?? '');
+    if (!Number.isNaN(date)) {
+      this.recordClockSample(date + DATE_HEADER_HALF_RESOLUTION_MS, sentAt, Date.now(), DATE_HEADER_HALF_RESOLUTION_MS, 'date_header');
+    }
+
+    for (const interceptor of this.interceptors) {
+      if (interceptor.afterResponse) {
+        res = (await interceptor.afterResponse(res, req)) ?? res;
+      }
+    }
+
+    return res;
+  }
+
+  /**
+   * Authenticated JSON request with retries governed by the retry policy.
+   *
+   * With token management enabled, an expiring token is refreshed first and
+   * an UNAUTHORIZED response is retried once with a refreshed token.
+   */
+  private async request<T>(
+    method: string,
+    path: string,
+    body?: unknown,
+    options?: RequestOptions,
+    flags: RequestFlags = {},
+  ): Promise<T> {
+    if (flags.skipTokenRefresh) {
+      return this.requestWithRetries<T>(method, path, body, options, flags);
+    }
+    return this.withTokenRefresh(() => this.requestWithRetries<T>(method, path, body, options, flags), options);
+  }
+
+  /**
+   * Run `send` with token management: an expiring token is refreshed first,
+   * and an UNAUTHORIZED error makes `send` run once more with a refreshed
+   * token. `send` must read the token when it is called.
+   */
+  private async withTokenRefresh<T>(send: () => Promise<T>, options?: RequestOptions): Promise<T> {
+    if (!this.tokenOptions) {
+      return send();
+    }
+
+    const margin = this.tokenOptions.refreshMarginMs ?? DEFAULT_TOKEN_REFRESH_MARGIN_MS;
+    if (this.tokenExpiresAt !== null && this.now() >= this.tokenExpiresAt - margin) {
+      await this.refreshToken(options);
+    }
+
+    const usedToken = this.token;
+    try {
+      return await send();
+    } catch (err) {
+      if (!(err instanceof ElydoraAuthError) || err.code !== 'UNAUTHORIZED') {
+        throw err;
+      }
+      // Another request may already have replaced the rejected token
+      if (this.token === usedToken) {
+        await this.refreshToken(options);
+      }
+      return send();
+    }
+  }
+
+  private async requestWithRetries<T>(
+    method: string,
+    path: string,
+    body: unknown,
+    options: RequestOptions | undefined,
+    flags: RequestFlags,
+  ): Promise<T> {
+    const url = `${this.baseUrl}${path}`;
+    const headers: Record<string, string> = {
+      'Accept': 'application/json',
+    };
+
+    if (this.token) {
+      headers['Authorization'] = `Bearer ${this.token}`;
     }
 
     if (body !== undefined) {
       headers['Content-Type'] = 'application/json';
     }
 
-    let lastError: Error | undefined;
+    const policy = this.retryPolicy;
+    const startedAt = Date.now();
+
+    for (let attempt = 0; ; attempt++) {
+      flags.retried = attempt > 0;
+      const attemptSignal = this.attemptSignal(options);
+      let failure: unknown;
+      let retryAfterMs: number | null = null;
 
-    for (let attempt = 0; attempt <= this.maxRetries; attempt++) {
       try {
-        const res = await fetch(url, {
+        const res = await this.send({
           method,
-          headers,
+          url,
+          headers: { ...headers },
           body: body !== undefined ? JSON.stringify(body) : undefined,
+          signal: attemptSignal.signal,
+          attempt,
         });
 
-        // Only retry on 429 or 5xx
-        if (attempt < this.maxRetries && (res.status === 429 || res.status >= 500)) {
-          const retryAfter = res.headers.get('Retry-After');
-          const delayMs = retryAfter
-            ? parseInt(retryAfter, 10) * 1000
-            : Math.min(1000 * 2 ** attempt, 10_000);
-          await sleep(delayMs);
-          continue;
+        if (!res.ok) {
+          retryAfterMs = parseRetryAfter(res.headers.get('Retry-After'));
         }
-
-        return await handleResponse<T>(res);
+        const data = await handleResponse<T>(res);
+        if (this.strictResponses && flags.schema) {
+          const errors = validateSchema(flags.schema, data);
+          if (errors.length > 0) {
+            throw new ElydoraResponseError(res.status, `${method} ${path}`, errors);
+          }
+        }
+        return data;
       } catch (err) {
-        lastError = err instanceof Error ? err : new Error(String(err));
-
-        // Only retry on network errors, not API errors
-        if (err instanceof ElydoraError) {
+        // Cancellation by the caller and malformed responses are never retried
+        if (options?.signal?.aborted || err instanceof ElydoraResponseError) {
           throw err;
         }
+        failure = err;
+      } finally {
+        attemptSignal.dispose();
+      }
 
-        if (attempt < this.maxRetries) {
-          await sleep(Math.min(1000 * 2 ** attempt, 10_000));
-          continue;
-        }
+      const apiError = failure instanceof ElydoraError ? failure : undefined;
+      const retryable = isRetryableFailure(policy, {
+        method,
+        path,
+        attempt,
+        idempotent: flags.idempotent ?? false,
+        status: apiError?.statusCode,
+        code: apiError?.code,
+        error: failure,
+      });
+
+      // A server asking for a longer wait than maxDelayMs is retried after maxDelayMs
+      const delayMs = retryAfterMs !== null ? Math.min(retryAfterMs, policy.maxDelayMs) : computeBackoff(policy, attempt);
+      const outOfBudget = Date.now() - startedAt + delayMs > policy.budgetMs;
+      if (!retryable || attempt + 1 >= policy.maxAttempts || outOfBudget) {
+        throw failure instanceof Error ? failure : new Error(String(failure));
       }
+
+      await sleep(delayMs, options?.signal);
+    }
+  }
+
+  private async obtainToken(options?: RequestOptions): Promise<ApiToken> {
+    const current: ApiToken | null = this.token
+      ? { token: this.token, expires_at: this.tokenExpiresAt, ...(this.tokenId ? { token_id: this.tokenId } : {}) }
+      : null;
+
+    const next = this.tokenOptions?.refresh
+      ? await this.tokenOptions.refresh(current)
+      : await this.request<RotateApiTokenResponse>('POST', '/v1/auth/rotate', {}, options, { skipTokenRefresh: true });
+
+    this.useToken(next);
+    this.tokenStore?.save(next);
+    this.tokenOptions?.onRefresh?.(next);
+    return next;
+  }
+
+  /**
+   * Re-fetch the JWKS into the cache; concurrent calls share one request.
+   */
+  private refreshJwks(options?: RequestOptions): Promise<CachedJwks> {
+    if (!this.jwksRefresh) {
+      this.jwksRefresh = this.getJWKS(options)
+        .then((jwks) => {
+          this.jwksCache = { jwks, fetchedAt: Date.now(), misses: new Set() };
+          return this.jwksCache;
+        })
+        .finally(() => {
+          this.jwksRefresh = undefined;
+        });
     }
+    return this.jwksRefresh;
+  }
 
-    throw lastError ?? new Error('Request failed after retries');
+  private useToken(token: ApiToken): void {
+    this.token = token.token;
+    this.tokenExpiresAt = token.expires_at;
+    this.tokenId = token.token_id;
+  }
+
+  /**
+   * Single unauthenticated GET with no retries (JWKS, health).
+   */
+  private async requestPublic<T>(url: string, options?: RequestOptions): Promise<T> {
+    const attempt = this.attemptSignal(options);
+    try {
+      const res = await this.send({
+        method: 'GET',
+        url,
+        headers: { 'Accept': 'application/json' },
+        signal: attempt.signal,
+      });
+      return await handleResponse<T>(res);
+    } finally {
+      attempt.dispose();
+    }
+  }
+
+  /**
+   * Signal for one HTTP attempt: aborts when the caller's signal aborts or
+   * when the per-attempt timeout elapses (with an ElydoraTimeoutError reason).
+   */
+  private attemptSignal(options?: RequestOptions): AttemptSignal {
+    const timeoutMs = options?.timeoutMs ?? this.timeoutMs;
+    const parent = options?.signal;
+    const controller = new AbortController();
+
+    const onAbort = () => controller.abort(parent!.reason);
+    if (parent?.aborted) {
+      controller.abort(parent.reason);
+    } else {
+      parent?.addEventListener('abort', onAbort, { once: true });
+    }
+
+    const timer = timeoutMs > 0
+      ? setTimeout(() => {
+        controller.abort(new ElydoraTimeoutError(timeoutMs));
+      }, timeoutMs)
+      : undefined;
+
+    const stopTimer = () => clearTimeout(timer);
+    return {
+      signal: controller.signal,
+      stopTimer,
+      dispose: () => {
+        stopTimer();
+        parent?.removeEventListener('abort', onAbort);
+      },
+    };
   }
 }
 
@@ -467,24 +1931,141 @@ async function handleResponse<T>(res: Response): Promise<T> {
     // Response body was not valid JSON
   }
 
+  const retryAfterMs = parseRetryAfter(res.headers.get('Retry-After'));
+
   if (errorBody?.error) {
-    throw new ElydoraError(
+    throw createElydoraError(
       res.status,
       errorBody.error.code,
       errorBody.error.message,
       errorBody.error.request_id,
       errorBody.error.details,
+      retryAfterMs,
     );
   }
 
-  throw new ElydoraError(
+  throw createElydoraError(
     res.status,
-    'INTERNAL_ERROR',
+    res.status === 429 ? 'RATE_LIMITED' : 'INTERNAL_ERROR',
     `HTTP ${res.status}: ${res.statusText}`,
     'unknown',
+    undefined,
+    retryAfterMs,
   );
 }
 
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
+/**
+ * Pull the server's expected prev_chain_hash out of a PREV_HASH_MISMATCH error.
+ *
+ * Prefers the structured `details.expected_prev_chain_hash` field and falls
+ * back to parsing the error message.
+ */
+function extractExpectedPrevChainHash(
+  err: unknown,
+): { chainHash: string; source: ChainResyncEvent['source'] } | null {
+  if (!(err instanceof ElydoraError) || err.code !== 'PREV_HASH_MISMATCH') {
+    return null;
+  }
+
+  const fromDetails = err.details?.expected_prev_chain_hash;
+  if (typeof fromDetails === 'string' && fromDetails) {
+    return { chainHash: fromDetails, source: 'details' };
+  }
+
+  const match = err.message.match(/Expected prev_chain_hash "([^"]+)"/);
+  if (match) {
+    return { chainHash: match[1]!, source: 'message' };
+  }
+
+  return null;
+}
+
+function buildQuery(params?: ListRequest): string {
+  const search = new URLSearchParams();
+  if (params?.limit) search.set('limit', String(params.limit));
+  if (params?.cursor) search.set('cursor', params.cursor);
+  const query = search.toString();
+  return query ? `?${query}` : '';
+}
+
+/**
+ * Lazily walk a cursor-paginated endpoint, one page per request.
+ *
+ * Stops when the server returns no cursor, or repeats the previous one.
+ */
+async function* paginate<T>(
+  startCursor: string | undefined,
+  fetchPage: (cursor: string | undefined) => Promise<{ items: T[]; cursor?: string }>,
+): AsyncGenerator<T, void, undefined> {
+  let cursor = startCursor;
+  for (;;) {
+    const page = await fetchPage(cursor);
+    yield* page.items;
+    if (!page.cursor || page.cursor === cursor) {
+      return;
+    }
+    cursor = page.cursor;
+  }
+}
+
+/**
+ * Network failures, and API errors that may succeed later (429, 5xx).
+ */
+/**
+ * Run `action` after `delayMs` without keeping the process alive. A failure
+ * rejects the returned promise and also emits a process warning, so it
+ * surfaces even when the caller never awaits it.
+ */
+function afterDelay(delayMs: number, description: string, action: () => Promise<void>): Promise<void> {
+  const done = new Promise<void>((resolve) => setTimeout(resolve, delayMs).unref()).then(action);
+  done.catch((err: unknown) => {
+    process.emitWarning(
+      `Failed to ${description}: ${err instanceof Error ? err.message : String(err)}`,
+      'ElydoraKeyRotationWarning',
+    );
+  });
+  return done;
+}
+
+function isTransientFailure(err: unknown): boolean {
+  return err instanceof ElydoraNetworkError || (err instanceof ElydoraError && err.isRetryable);
+}
+
+function isExpired(eor: EOR, now: number): boolean {
+  return eor.issued_at + eor.ttl_ms <= now;
+}
+
+/**
+ * Narrow a typed subject, action or payload to the JSON object the EOR carries.
+ */
+function asRecord(value: object, field: string): Record<string, unknown> {
+  if (!isRecord(value)) {
+    throw new Error(`Operation ${field} must be a JSON object, not an array`);
+  }
+  return value;
+}
+
+function isRecord(value: object): value is Record<string, unknown> {
+  return !Array.isArray(value);
+}
+
+/**
+ * Wait for `ms`, rejecting early with the signal's reason if it aborts.
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
 }
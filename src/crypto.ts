@@ -1,4 +1,5 @@
 import crypto from 'node:crypto';
+import type { EAR, MerkleProofStep } from './types.js';
 import { base64urlEncode } from './utils.js';
 
 // ---------------------------------------------------------------------------
@@ -94,6 +95,65 @@ export function computePayloadHash(
   return sha256Base64url(canonical);
 }
 
+// ---------------------------------------------------------------------------
+// Merkle tree
+// ---------------------------------------------------------------------------
+
+/**
+ * Compute a Merkle tree parent node.
+ *
+ * parent = SHA-256(left_bytes || right_bytes)
+ *
+ * Child hashes are base64url-decoded to raw bytes before concatenation.
+ */
+export function computeMerkleParent(left: string, right: string): string {
+  const input = Buffer.concat([
+    Buffer.from(left, 'base64url'),
+    Buffer.from(right, 'base64url'),
+  ]);
+  return sha256Base64url(input);
+}
+
+/**
+ * Fold an inclusion proof path from a leaf hash up to the Merkle root.
+ *
+ * Each step names the sibling hash and which side of the current node it sits on.
+ */
+export function computeMerkleRoot(
+  leafHash: string,
+  path: ReadonlyArray<MerkleProofStep>,
+): string {
+  let node = leafHash;
+  for (const step of path) {
+    node = step.position === 'left'
+      ? computeMerkleParent(step.hash, node)
+      : computeMerkleParent(node, step.hash);
+  }
+  return node;
+}
+
+// ---------------------------------------------------------------------------
+// Receipt hash
+// ---------------------------------------------------------------------------
+
+/**
+ * Compute the receipt hash of an Elydora Acknowledgement Receipt (EAR).
+ *
+ * receipt_hash = SHA-256(JCS(receipt minus receipt_hash, elydora_kid, elydora_signature))
+ *
+ * The server's elydora_signature is then computed over the JCS-canonicalized
+ * receipt minus elydora_signature (i.e. including receipt_hash and elydora_kid).
+ */
+export function computeReceiptHash(receipt: EAR): string {
+  const {
+    receipt_hash: _receiptHash,
+    elydora_kid: _kid,
+    elydora_signature: _signature,
+    ...body
+  } = receipt;
+  return sha256Base64url(jcsCanonicalise(body));
+}
+
 // ---------------------------------------------------------------------------
 // Ed25519 signing
 // ---------------------------------------------------------------------------
@@ -111,7 +171,7 @@ const PKCS8_ED25519_PREFIX = Buffer.from([
 /**
  * Import a base64url-encoded 32-byte Ed25519 seed as a Node.js KeyObject.
  */
-function importPrivateKey(privateKeyBase64url: string): crypto.KeyObject {
+export function importPrivateKey(privateKeyBase64url: string): crypto.KeyObject {
   const seed = Buffer.from(privateKeyBase64url, 'base64url');
   const pkcs8 = Buffer.concat([PKCS8_ED25519_PREFIX, seed]);
   return crypto.createPrivateKey({
@@ -138,14 +198,81 @@ export function signEd25519(privateKeyBase64url: string, data: Buffer): string {
  * @returns base64url-encoded 32-byte public key
  */
 export function derivePublicKey(privateKeyBase64url: string): string {
-  const keyObject = importPrivateKey(privateKeyBase64url);
-  const publicKeyObject = crypto.createPublicKey(keyObject);
+  return exportRawPublicKey(importPrivateKey(privateKeyBase64url));
+}
+
+/**
+ * Generate a new Ed25519 key pair for an agent.
+ *
+ * @returns base64url-encoded 32-byte seed and 32-byte public key
+ */
+export function generateAgentKeyPair(): { privateKey: string; publicKey: string } {
+  const { privateKey } = crypto.generateKeyPairSync('ed25519');
+  const pkcs8 = privateKey.export({ type: 'pkcs8', format: 'der' });
+  // The seed is the last 32 bytes of the PKCS8 DER encoding
+  const seed = pkcs8.subarray(pkcs8.length - 32);
+  return {
+    privateKey: base64urlEncode(seed),
+    publicKey: exportRawPublicKey(privateKey),
+  };
+}
+
+/**
+ * Export the raw Ed25519 public key for a private or public KeyObject.
+ *
+ * @returns base64url-encoded 32-byte public key
+ */
+export function exportRawPublicKey(keyObject: crypto.KeyObject): string {
+  const publicKeyObject = keyObject.type === 'private' ? crypto.createPublicKey(keyObject) : keyObject;
   const rawPublicKey = publicKeyObject.export({ type: 'spki', format: 'der' });
   // The raw 32-byte public key is the last 32 bytes of the SPKI DER encoding
   const publicKeyBytes = rawPublicKey.subarray(rawPublicKey.length - 32);
   return base64urlEncode(publicKeyBytes);
 }
 
+// SPKI prefix for wrapping a raw 32-byte Ed25519 public key
+const SPKI_ED25519_PREFIX = Buffer.from([
+  0x30, 0x2a, // SEQUENCE (42 bytes)
+  0x30, 0x05, // SEQUENCE (5 bytes)
+  0x06, 0x03, 0x2b, 0x65, 0x70, // OID 1.3.101.112 (Ed25519)
+  0x03, 0x21, 0x00, // BIT STRING (33 bytes, 0 unused bits)
+]);
+
+/**
+ * Import a base64url-encoded 32-byte Ed25519 public key as a Node.js KeyObject.
+ */
+function importPublicKey(publicKeyBase64url: string): crypto.KeyObject {
+  const raw = Buffer.from(publicKeyBase64url, 'base64url');
+  if (raw.length !== 32) {
+    throw new Error(`Invalid Ed25519 public key length: expected 32 bytes, got ${raw.length}`);
+  }
+  const spki = Buffer.concat([SPKI_ED25519_PREFIX, raw]);
+  return crypto.createPublicKey({
+    key: spki,
+    format: 'der',
+    type: 'spki',
+  });
+}
+
+/**
+ * Verify an Ed25519 signature using a base64url-encoded 32-byte public key.
+ *
+ * Returns false (rather than throwing) for malformed keys or signatures.
+ */
+export function verifyEd25519(
+  publicKeyBase64url: string,
+  data: Buffer,
+  signatureBase64url: string,
+): boolean {
+  try {
+    const keyObject = importPublicKey(publicKeyBase64url);
+    const signature = Buffer.from(signatureBase64url, 'base64url');
+    return crypto.verify(null, data, keyObject, signature);
+  } catch {
+    return false;
+  }
+}
+
 // ---------------------------------------------------------------------------
 // Zero chain hash (initial prev_chain_hash for the first operation)
 // ---------------------------------------------------------------------------
@@ -0,0 +1,137 @@
+import crypto from 'node:crypto';
+import { jcsCanonicalise, sha256Base64url, computePayloadHash } from './crypto.js';
+import { verifyEor } from './verify.js';
+import { base64urlEncode } from './utils.js';
+import type {
+  Disclosure,
+  DisclosureBundle,
+  DisclosureVerificationResult,
+  EOR,
+  RedactedPayload,
+} from './types.js';
+
+const SD_ALG = 'sha-256';
+
+// ---------------------------------------------------------------------------
+// Redaction
+// ---------------------------------------------------------------------------
+
+/**
+ * Salted commitment to one payload field: SHA-256(JCS([salt, field, value])).
+ */
+export function computeFieldCommitment(disclosure: Disclosure): string {
+  return sha256Base64url(jcsCanonicalise([disclosure.salt, disclosure.field, disclosure.value]));
+}
+
+/**
+ * Replace a payload with per-field salted commitments.
+ *
+ * The result is `{ _sd_alg, _sd: { field: commitment }, ...disclosedFields }`,
+ * so payload_hash commits to every field while only `disclose` is readable.
+ */
+export function redactPayload(
+  payload: Record<string, unknown>,
+  disclose: string[] = [],
+): { payload: Record<string, unknown>; disclosures: Disclosure[] } {
+  if (typeof payload !== 'object' || payload === null || Array.isArray(payload)) {
+    throw new Error('Only object payloads can be redacted');
+  }
+  if ('_sd' in payload || '_sd_alg' in payload) {
+    throw new Error('Payload fields "_sd" and "_sd_alg" are reserved for redaction');
+  }
+
+  const disclosures: Disclosure[] = [];
+  const commitments: Record<string, string> = {};
+  const clear: Record<string, unknown> = {};
+
+  for (const [field, value] of Object.entries(payload)) {
+    if (value === undefined) continue;
+    const disclosure: Disclosure = { field, salt: base64urlEncode(crypto.randomBytes(16)), value };
+    disclosures.push(disclosure);
+    commitments[field] = computeFieldCommitment(disclosure);
+    if (disclose.includes(field)) {
+      clear[field] = value;
+    }
+  }
+
+  return {
+    payload: { _sd_alg: SD_ALG, _sd: commitments, ...clear },
+    disclosures,
+  };
+}
+
+export function isRedactedPayload(payload: unknown): payload is RedactedPayload {
+  return typeof payload === 'object' && payload !== null && (payload as { _sd_alg?: unknown })._sd_alg === SD_ALG
+    && typeof (payload as { _sd?: unknown })._sd === 'object' && (payload as { _sd?: unknown })._sd !== null;
+}
+
+/**
+ * Select the disclosures for `fields` to hand to an auditor with the EOR.
+ */
+export function createDisclosureBundle(eor: EOR, disclosures: Disclosure[], fields: string[]): DisclosureBundle {
+  const selected = fields.map((field) => {
+    const disclosure = disclosures.find((d) => d.field === field);
+    if (!disclosure) {
+      throw new Error(`No disclosure for field "${field}" of operation "${eor.operation_id}"`);
+    }
+    return disclosure;
+  });
+  return { eor, disclosures: selected };
+}
+
+// ---------------------------------------------------------------------------
+// Verification
+// ---------------------------------------------------------------------------
+
+/**
+ * Verify disclosed fields against the EOR's signed payload_hash.
+ *
+ * 1. Re-derive payload_hash from the redacted payload and compare
+ * 2. Recompute each disclosure's commitment and compare with payload._sd
+ * 3. If a public key is given, verify the EOR signature too
+ */
+export function verifyDisclosureBundle(bundle: DisclosureBundle, publicKey?: string): DisclosureVerificationResult {
+  const { eor } = bundle;
+  const errors: string[] = [];
+  const fields: Record<string, unknown> = {};
+
+  const payloadHashValid = computePayloadHash(eor.payload) === eor.payload_hash;
+  if (!payloadHashValid) {
+    errors.push(`payload_hash mismatch for operation "${eor.operation_id}"`);
+  }
+
+  const commitments: Record<string, unknown> | null = isRedactedPayload(eor.payload) ? eor.payload._sd : null;
+
+  let commitmentsValid = commitments !== null;
+  if (!commitments) {
+    errors.push(`Operation "${eor.operation_id}" has no ${SD_ALG} field commitments`);
+  } else {
+    for (const disclosure of bundle.disclosures) {
+      if (commitments[disclosure.field] !== computeFieldCommitment(disclosure)) {
+        commitmentsValid = false;
+        errors.push(`Disclosure for field "${disclosure.field}" does not match its commitment`);
+      } else {
+        fields[disclosure.field] = disclosure.value;
+      }
+    }
+  }
+
+  let signatureValid: boolean | undefined;
+  if (publicKey !== undefined) {
+    signatureValid = verifyEor(eor, publicKey).checks.signature;
+    if (!signatureValid) {
+      errors.push(`Invalid signature for operation "${eor.operation_id}" (kid "${eor.agent_pubkey_kid}")`);
+    }
+  }
+
+  return {
+    valid: payloadHashValid && commitmentsValid && signatureValid !== false,
+    checks: {
+      payloadHash: payloadHashValid,
+      commitments: commitmentsValid,
+      ...(signatureValid !== undefined ? { signature: signatureValid } : {}),
+    },
+    fields,
+    ...(errors.length > 0 ? { errors } : {}),
+  };
+}
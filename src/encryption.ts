@@ -0,0 +1,304 @@
+import crypto from 'node:crypto';
+import { jcsCanonicalise, computePayloadHash } from './crypto.js';
+import { verifyEor } from './verify.js';
+import { base64urlEncode, base64urlDecode } from './utils.js';
+import { isBlobReference, resolvePayloadAsync } from './blob-store.js';
+import type {
+  DecryptAndVerifyOptions,
+  DecryptionResult,
+  EncryptedPayload,
+  EncryptionContext,
+  EOR,
+  KeyEncryptionKey,
+} from './types.js';
+
+const ALGORITHM = 'aes-256-gcm';
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+const AAD_LABEL = 'elydora-payload-v1';
+
+// ---------------------------------------------------------------------------
+// Key-encryption key
+// ---------------------------------------------------------------------------
+
+/**
+ * Local AES-256-GCM key-encryption key.
+ *
+ * Wrapped keys are base64url(iv || ciphertext || tag).
+ */
+export class AesKeyEncryptionKey implements KeyEncryptionKey {
+  readonly kid: string;
+  private readonly key: Buffer;
+
+  /**
+   * @param key 32-byte key, raw or base64url-encoded
+   */
+  constructor(key: Buffer | string, kid: string) {
+    this.key = typeof key === 'string' ? base64urlDecode(key) : key;
+    if (this.key.length !== KEY_BYTES) {
+      throw new Error(`AES-256 key must be ${KEY_BYTES} bytes, got ${this.key.length}`);
+    }
+    this.kid = kid;
+  }
+
+  wrap(dataKey: Buffer): string {
+    const { iv, ciphertext, tag } = seal(this.key, dataKey);
+    return base64urlEncode(Buffer.concat([iv, ciphertext, tag]));
+  }
+
+  unwrap(wrappedKey: string): Buffer {
+    const raw = base64urlDecode(wrappedKey);
+    return open(
+      this.key,
+      raw.subarray(0, IV_BYTES),
+      raw.subarray(IV_BYTES, raw.length - TAG_BYTES),
+      raw.subarray(raw.length - TAG_BYTES),
+    );
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Payload envelopes
+// ---------------------------------------------------------------------------
+
+/**
+ * Encrypt a payload under a fresh data key, wrapped by the KEK.
+ *
+ * The plaintext is the JCS form of the payload, so decryption restores it
+ * exactly. The operation identity in `context` is authenticated with it.
+ *
+ * @throws Error if the KEK wraps asynchronously; use encryptPayloadAsync() for those
+ */
+export function encryptPayload(
+  payload: Record<string, unknown> | string | null,
+  kek: KeyEncryptionKey,
+  context: EncryptionContext,
+): EncryptedPayload {
+  const dataKey = crypto.randomBytes(KEY_BYTES);
+  try {
+    const wrappedKey = kek.wrap(dataKey);
+    if (typeof wrappedKey !== 'string') {
+      // The envelope is abandoned, so is its wrapped key
+      wrappedKey.catch(() => undefined);
+      throw new Error(`KEK "${kek.kid}" wraps asynchronously; use createAndSubmit() or encryptPayloadAsync() with it`);
+    }
+    return sealEnvelope(payload, kek.kid, wrappedKey, dataKey, context);
+  } finally {
+    dataKey.fill(0);
+  }
+}
+
+/**
+ * encryptPayload() for KEKs that may wrap asynchronously, e.g. through a KMS.
+ */
+export async function encryptPayloadAsync(
+  payload: Record<string, unknown> | string | null,
+  kek: KeyEncryptionKey,
+  context: EncryptionContext,
+): Promise<EncryptedPayload> {
+  const dataKey = crypto.randomBytes(KEY_BYTES);
+  try {
+    return sealEnvelope(payload, kek.kid, await kek.wrap(dataKey), dataKey, context);
+  } finally {
+    dataKey.fill(0);
+  }
+}
+
+/**
+ * Decrypt an envelope produced by encryptPayload() for the same context.
+ *
+ * @throws Error if the envelope is malformed, belongs to another operation or fails authentication,
+ *   or if the KEK unwraps asynchronously (use decryptPayloadAsync() for those)
+ */
+export function decryptPayload(
+  envelope: EncryptedPayload,
+  kek: KeyEncryptionKey,
+  context: EncryptionContext,
+): Record<string, unknown> | string | null {
+  checkEnvelope(envelope, kek);
+  const dataKey = kek.unwrap(envelope.wrapped_key);
+  if (!Buffer.isBuffer(dataKey)) {
+    dataKey.then((key) => key.fill(0), () => undefined);
+    throw new Error(`KEK "${kek.kid}" unwraps asynchronously; use decryptAndVerify() or decryptPayloadAsync() with it`);
+  }
+  return openEnvelope(envelope, dataKey, context);
+}
+
+/**
+ * decryptPayload() for KEKs that may unwrap asynchronously, e.g. through a KMS.
+ */
+export async function decryptPayloadAsync(
+  envelope: EncryptedPayload,
+  kek: KeyEncryptionKey,
+  context: EncryptionContext,
+): Promise<Record<string, unknown> | string | null> {
+  checkEnvelope(envelope, kek);
+  return openEnvelope(envelope, await kek.unwrap(envelope.wrapped_key), context);
+}
+
+/**
+ * Decrypt an EOR's payload and verify it against the signed record.
+ *
+ * 1. Re-derive payload_hash from the payload (the ciphertext envelope, or
+ *    the blob reference it was offloaded behind) and compare
+ * 2. If offloaded, fetch the envelope from `blobStore` and check it against
+ *    the reference's hash and size
+ * 3. Unwrap the data key and decrypt (GCM authenticates the ciphertext and
+ *    the EOR's encryptionContext())
+ * 4. If a public key is given, verify the EOR signature too
+ *
+ * Asynchronous so that KEKs backed by a KMS, and remote blob stores, can be used.
+ */
+export async function decryptAndVerify(eor: EOR, kek: KeyEncryptionKey, options: DecryptAndVerifyOptions = {}): Promise<DecryptionResult> {
+  const errors: string[] = [];
+
+  const payloadHashValid = computePayloadHash(eor.payload) === eor.payload_hash;
+  if (!payloadHashValid) {
+    errors.push(`payload_hash mismatch for operation "${eor.operation_id}"`);
+  }
+
+  let sealed: unknown = eor.payload;
+  let blobValid: boolean | undefined;
+  if (isBlobReference(eor.payload)) {
+    blobValid = false;
+    if (!options.blobStore) {
+      errors.push(`Operation "${eor.operation_id}" has an offloaded payload; pass a blobStore to fetch it`);
+    } else {
+      try {
+        sealed = await resolvePayloadAsync(eor.payload, options.blobStore);
+        blobValid = true;
+      } catch (err) {
+        errors.push(`Offloaded payload of operation "${eor.operation_id}": ${err instanceof Error ? err.message : String(err)}`);
+      }
+    }
+  }
+
+  let payload: Record<string, unknown> | string | null | undefined;
+  if (blobValid !== false) {
+    if (!isEncryptedPayload(sealed)) {
+      errors.push(`Operation "${eor.operation_id}" does not carry an encrypted payload`);
+    } else {
+      try {
+        payload = await decryptPayloadAsync(sealed, kek, encryptionContext(eor));
+      } catch (err) {
+        errors.push(`Decryption failed for operation "${eor.operation_id}": ${err instanceof Error ? err.message : String(err)}`);
+      }
+    }
+  }
+  const decryptionValid = payload !== undefined;
+
+  let signatureValid: boolean | undefined;
+  if (options.publicKey !== undefined) {
+    signatureValid = verifyEor(eor, options.publicKey).checks.signature;
+    if (!signatureValid) {
+      errors.push(`Invalid signature for operation "${eor.operation_id}" (kid "${eor.agent_pubkey_kid}")`);
+    }
+  }
+
+  return {
+    valid: payloadHashValid && decryptionValid && signatureValid !== false,
+    ...(decryptionValid ? { payload } : {}),
+    checks: {
+      payloadHash: payloadHashValid,
+      ...(blobValid !== undefined ? { blob: blobValid } : {}),
+      decryption: decryptionValid,
+      ...(signatureValid !== undefined ? { signature: signatureValid } : {}),
+    },
+    ...(errors.length > 0 ? { errors } : {}),
+  };
+}
+
+/**
+ * The context an EOR's payload was encrypted under. Late operations keep the
+ * payload of the operation they re-issue, so they use its operation_id.
+ */
+export function encryptionContext(eor: EOR): EncryptionContext {
+  const late = eor.action.late;
+  const originalId = typeof late === 'object' && late !== null
+    ? (late as { original_operation_id?: unknown }).original_operation_id
+    : undefined;
+  return {
+    org_id: eor.org_id,
+    agent_id: eor.agent_id,
+    operation_id: typeof originalId === 'string' ? originalId : eor.operation_id,
+  };
+}
+
+export function isEncryptedPayload(payload: unknown): payload is EncryptedPayload {
+  return typeof payload === 'object' && payload !== null && (payload as { _enc?: unknown })._enc === 'A256GCM';
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function sealEnvelope(
+  payload: Record<string, unknown> | string | null,
+  kekKid: string,
+  wrappedKey: string,
+  dataKey: Buffer,
+  context: EncryptionContext,
+): EncryptedPayload {
+  const { iv, ciphertext, tag } = seal(dataKey, Buffer.from(jcsCanonicalise(payload), 'utf-8'), additionalData(context));
+  return {
+    _enc: 'A256GCM',
+    kek_kid: kekKid,
+    wrapped_key: wrappedKey,
+    iv: base64urlEncode(iv),
+    ciphertext: base64urlEncode(ciphertext),
+    tag: base64urlEncode(tag),
+  };
+}
+
+function checkEnvelope(envelope: EncryptedPayload, kek: KeyEncryptionKey): void {
+  if (envelope._enc !== 'A256GCM') {
+    throw new Error(`Unsupported payload encryption "${String(envelope._enc)}"`);
+  }
+  if (envelope.kek_kid !== kek.kid) {
+    throw new Error(`Payload was encrypted with KEK "${envelope.kek_kid}", not "${kek.kid}"`);
+  }
+}
+
+/** Decrypt with an unwrapped data key, which is zeroed afterwards. */
+function openEnvelope(
+  envelope: EncryptedPayload,
+  dataKey: Buffer,
+  context: EncryptionContext,
+): Record<string, unknown> | string | null {
+  try {
+    const plaintext = open(
+      dataKey,
+      base64urlDecode(envelope.iv),
+      base64urlDecode(envelope.ciphertext),
+      base64urlDecode(envelope.tag),
+      additionalData(context),
+    );
+    return JSON.parse(plaintext.toString('utf-8')) as Record<string, unknown> | string | null;
+  } finally {
+    dataKey.fill(0);
+  }
+}
+
+function additionalData(context: EncryptionContext): Buffer {
+  return Buffer.from(jcsCanonicalise([AAD_LABEL, context.org_id, context.agent_id, context.operation_id]), 'utf-8');
+}
+
+function seal(key: Buffer, plaintext: Buffer, aad?: Buffer): { iv: Buffer; ciphertext: Buffer; tag: Buffer } {
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  if (aad) {
+    cipher.setAAD(aad);
+  }
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return { iv, ciphertext, tag: cipher.getAuthTag() };
+}
+
+function open(key: Buffer, iv: Buffer, ciphertext: Buffer, tag: Buffer, aad?: Buffer): Buffer {
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(tag);
+  if (aad) {
+    decipher.setAAD(aad);
+  }
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
@@ -1,17 +1,29 @@
-import type { ErrorCode } from './types.js';
+import type {
+  AgentStateErrorDetails,
+  ChainErrorDetails,
+  ErrorCode,
+  Export,
+  ValidationErrorDetails,
+} from './types.js';
 
-export class ElydoraError extends Error {
+// ---------------------------------------------------------------------------
+// API errors
+// ---------------------------------------------------------------------------
+
+export class ElydoraError<D extends Record<string, unknown> = Record<string, unknown>> extends Error {
   public readonly code: ErrorCode;
   public readonly requestId: string;
   public readonly statusCode: number;
-  public readonly details?: Record<string, unknown>;
+  public readonly details?: D;
+  /** Whether repeating the same request may succeed (429 and 5xx) */
+  public readonly isRetryable: boolean;
 
   constructor(
     statusCode: number,
     code: ErrorCode,
     message: string,
     requestId: string,
-    details?: Record<string, unknown>,
+    details?: D,
   ) {
     super(message);
     this.name = 'ElydoraError';
@@ -19,5 +31,197 @@ export class ElydoraError extends Error {
     this.code = code;
     this.requestId = requestId;
     this.details = details;
+    this.isRetryable = statusCode === 429 || statusCode >= 500;
+  }
+}
+
+/** UNAUTHORIZED, FORBIDDEN, INVALID_SIGNATURE, KEY_REVOKED */
+export class ElydoraAuthError extends ElydoraError {
+  constructor(statusCode: number, code: ErrorCode, message: string, requestId: string, details?: Record<string, unknown>) {
+    super(statusCode, code, message, requestId, details);
+    this.name = 'ElydoraAuthError';
+  }
+}
+
+/** PREV_HASH_MISMATCH, REPLAY_DETECTED, TTL_EXPIRED */
+export class ElydoraChainError extends ElydoraError<ChainErrorDetails> {
+  constructor(statusCode: number, code: ErrorCode, message: string, requestId: string, details?: ChainErrorDetails) {
+    super(statusCode, code, message, requestId, details);
+    this.name = 'ElydoraChainError';
+  }
+}
+
+/** RATE_LIMITED */
+export class ElydoraRateLimitError extends ElydoraError {
+  /** Wait requested by the server's Retry-After header, if any */
+  public readonly retryAfterMs: number | null;
+
+  constructor(
+    statusCode: number,
+    code: ErrorCode,
+    message: string,
+    requestId: string,
+    details?: Record<string, unknown>,
+    retryAfterMs: number | null = null,
+  ) {
+    super(statusCode, code, message, requestId, details);
+    this.name = 'ElydoraRateLimitError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/** VALIDATION_ERROR, PAYLOAD_TOO_LARGE */
+export class ElydoraValidationError extends ElydoraError<ValidationErrorDetails> {
+  constructor(statusCode: number, code: ErrorCode, message: string, requestId: string, details?: ValidationErrorDetails) {
+    super(statusCode, code, message, requestId, details);
+    this.name = 'ElydoraValidationError';
+  }
+}
+
+/** UNKNOWN_AGENT, AGENT_FROZEN */
+export class ElydoraAgentStateError extends ElydoraError<AgentStateErrorDetails> {
+  constructor(statusCode: number, code: ErrorCode, message: string, requestId: string, details?: AgentStateErrorDetails) {
+    super(statusCode, code, message, requestId, details);
+    this.name = 'ElydoraAgentStateError';
+  }
+}
+
+/** NOT_FOUND */
+export class ElydoraNotFoundError extends ElydoraError {
+  constructor(statusCode: number, code: ErrorCode, message: string, requestId: string, details?: Record<string, unknown>) {
+    super(statusCode, code, message, requestId, details);
+    this.name = 'ElydoraNotFoundError';
+  }
+}
+
+/** INTERNAL_ERROR and any other 5xx response */
+export class ElydoraServerError extends ElydoraError {
+  constructor(statusCode: number, code: ErrorCode, message: string, requestId: string, details?: Record<string, unknown>) {
+    super(statusCode, code, message, requestId, details);
+    this.name = 'ElydoraServerError';
+  }
+}
+
+/**
+ * Build the ElydoraError subclass matching an API error response.
+ */
+export function createElydoraError(
+  statusCode: number,
+  code: ErrorCode,
+  message: string,
+  requestId: string,
+  details?: Record<string, unknown>,
+  retryAfterMs: number | null = null,
+): ElydoraError {
+  switch (code) {
+    case 'UNAUTHORIZED':
+    case 'FORBIDDEN':
+    case 'INVALID_SIGNATURE':
+    case 'KEY_REVOKED':
+      return new ElydoraAuthError(statusCode, code, message, requestId, details);
+    case 'PREV_HASH_MISMATCH':
+    case 'REPLAY_DETECTED':
+    case 'TTL_EXPIRED':
+      return new ElydoraChainError(statusCode, code, message, requestId, details as ChainErrorDetails | undefined);
+    case 'RATE_LIMITED':
+      return new ElydoraRateLimitError(statusCode, code, message, requestId, details, retryAfterMs);
+    case 'VALIDATION_ERROR':
+    case 'PAYLOAD_TOO_LARGE':
+      return new ElydoraValidationError(statusCode, code, message, requestId, details as ValidationErrorDetails | undefined);
+    case 'UNKNOWN_AGENT':
+    case 'AGENT_FROZEN':
+      return new ElydoraAgentStateError(statusCode, code, message, requestId, details as AgentStateErrorDetails | undefined);
+    case 'NOT_FOUND':
+      return new ElydoraNotFoundError(statusCode, code, message, requestId, details);
+    case 'INTERNAL_ERROR':
+      return new ElydoraServerError(statusCode, code, message, requestId, details);
+  }
+
+  if (statusCode >= 500) {
+    return new ElydoraServerError(statusCode, code, message, requestId, details);
+  }
+  return new ElydoraError(statusCode, code, message, requestId, details);
+}
+
+// ---------------------------------------------------------------------------
+// Transport errors
+// ---------------------------------------------------------------------------
+
+/**
+ * The request never produced an HTTP response (DNS, connection reset, ...).
+ * The underlying error is available as `cause`.
+ */
+export class ElydoraNetworkError extends Error {
+  public readonly isRetryable = true;
+
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'ElydoraNetworkError';
+  }
+}
+
+/** A single attempt exceeded the configured per-attempt timeout. */
+export class ElydoraTimeoutError extends ElydoraNetworkError {
+  public readonly timeoutMs: number;
+
+  constructor(timeoutMs: number) {
+    super(`Request timed out after ${timeoutMs}ms`);
+    this.name = 'ElydoraTimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Response validation errors
+// ---------------------------------------------------------------------------
+
+/**
+ * INVALID_RESPONSE: a successful response did not match its schema (strict
+ * mode). Raised by the client rather than the API, so `requestId` is empty.
+ * Never retried: the request may well have been applied.
+ */
+export class ElydoraResponseError extends ElydoraError {
+  /** Method and path of the request, e.g. `GET /v1/agents/a1` */
+  public readonly endpoint: string;
+  /** One message per violation, e.g. `$.agent.status: expected one of ...` */
+  public readonly errors: string[];
+
+  constructor(statusCode: number, endpoint: string, errors: string[]) {
+    const shown = errors.slice(0, 5).join('; ') + (errors.length > 5 ? `; and ${errors.length - 5} more` : '');
+    super(statusCode, 'INVALID_RESPONSE', `Unexpected response from ${endpoint}: ${shown}`, '');
+    this.name = 'ElydoraResponseError';
+    this.endpoint = endpoint;
+    this.errors = errors;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helper errors
+// ---------------------------------------------------------------------------
+
+export class ExportFailedError extends Error {
+  public readonly exportId: string;
+  public readonly reason: string | null;
+  public readonly export: Export;
+
+  constructor(exp: Export) {
+    const reason = exp.error ?? null;
+    super(`Export "${exp.export_id}" failed${reason ? `: ${reason}` : ''}`);
+    this.name = 'ExportFailedError';
+    this.exportId = exp.export_id;
+    this.reason = reason;
+    this.export = exp;
+  }
+}
+
+export class OperationValidationError extends Error {
+  public readonly operationType: string;
+  public readonly errors: string[];
+
+  constructor(operationType: string, errors: string[]) {
+    super(`Invalid "${operationType}" operation: ${errors.join('; ')}`);
+    this.name = 'OperationValidationError';
+    this.operationType = operationType;
+    this.errors = errors;
   }
 }
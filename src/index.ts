@@ -1,21 +1,86 @@
 export { ElydoraClient } from './client.js';
-export { ElydoraError } from './errors.js';
+export { bootstrapAgent } from './bootstrap.js';
+export {
+  ElydoraError,
+  ElydoraAuthError,
+  ElydoraChainError,
+  ElydoraRateLimitError,
+  ElydoraValidationError,
+  ElydoraAgentStateError,
+  ElydoraNotFoundError,
+  ElydoraServerError,
+  ElydoraResponseError,
+  ElydoraNetworkError,
+  ElydoraTimeoutError,
+  ExportFailedError,
+  OperationValidationError,
+} from './errors.js';
+export { MemoryChainStateStore, FileChainStateStore } from './chain-state.js';
+export { FileOutbox } from './outbox.js';
+export { MemoryTokenStore, FileTokenStore } from './token-store.js';
+export { SeedSigner, PemSigner, ProcessSigner } from './signer.js';
 
 export {
   jcsCanonicalise,
   sha256Base64url,
   computeChainHash,
   computePayloadHash,
+  computeReceiptHash,
+  computeMerkleParent,
+  computeMerkleRoot,
   signEd25519,
+  verifyEd25519,
   derivePublicKey,
+  generateAgentKeyPair,
   ZERO_CHAIN_HASH,
 } from './crypto.js';
 
+export {
+  verifyEor,
+  verifyChain,
+  verifyEar,
+  findJwk,
+  verifyInclusionProof,
+} from './verify.js';
+
+export {
+  redactPayload,
+  isRedactedPayload,
+  computeFieldCommitment,
+  createDisclosureBundle,
+  verifyDisclosureBundle,
+} from './disclosure.js';
+
+export {
+  AesKeyEncryptionKey,
+  encryptPayload,
+  encryptPayloadAsync,
+  decryptPayload,
+  decryptPayloadAsync,
+  decryptAndVerify,
+  encryptionContext,
+  isEncryptedPayload,
+} from './encryption.js';
+
+export {
+  DirectoryBlobStore,
+  offloadPayload,
+  offloadPayloadAsync,
+  resolvePayload,
+  resolvePayloadAsync,
+  isBlobReference,
+} from './blob-store.js';
+
+export { validateSchema } from './schema.js';
+export { OperationDefinition, OperationRegistry, defineOperation } from './operation-definition.js';
+
 export {
   uuidv7,
   generateNonce,
   base64urlEncode,
   base64urlDecode,
+  defaultKid,
+  nextKid,
 } from './utils.js';
 
 export type {
@@ -46,7 +111,26 @@ export type {
 
   // API request/response
   ElydoraClientConfig,
+  RetryPolicy,
+  RetryDecisionContext,
+  ChainStateStore,
+  Signer,
+  ProcessSignerOptions,
+  ApiToken,
+  TokenStore,
+  TokenOptions,
   CreateOperationParams,
+  BootstrapAgentOptions,
+  BootstrapAgentResult,
+  CreateAndSubmitResult,
+  ChainResyncEvent,
+  Outbox,
+  OutboxEntry,
+  OutboxFlushResult,
+  RejectedOutboxEntry,
+  BatchingOptions,
+  Interceptor,
+  InterceptedRequest,
   RegisterAgentRequest,
   RegisterAgentResponse,
   GetAgentResponse,
@@ -56,9 +140,46 @@ export type {
   FreezeAgentResponse,
   UnfreezeAgentResponse,
   DeleteAgentResponse,
+  AddAgentKeyRequest,
+  AgentKeyResponse,
+  RotateKeyOptions,
+  RotateKeyResult,
+  Disclosure,
+  RedactionOptions,
+  RedactedOperation,
+  RedactedPayload,
+  DisclosureBundle,
+  DisclosureVerificationResult,
+  KeyEncryptionKey,
+  EncryptionContext,
+  EncryptedPayload,
+  EncryptionOptions,
+  DecryptAndVerifyOptions,
+  DecryptionResult,
+  BlobStore,
+  BlobReference,
+  OffloadOptions,
+  ClockSkew,
+  ClockSkewOptions,
+  ServerFeatures,
+  OperationSchema,
+  OperationPayload,
+  OperationInput,
+  TypedOperation,
+  TypedEOR,
+  SealedPayload,
+  OperationParseOptions,
+  RegisteredOperation,
+  RegisteredEOR,
   SubmitOperationResponse,
+  SubmitOperationsRequest,
+  SubmitOperationsResponse,
+  BatchOperationResult,
   GetOperationResponse,
   VerifyOperationResponse,
+  MerkleProofStep,
+  InclusionProof,
+  GetInclusionProofResponse,
   AuditQueryRequest,
   AuditQueryResponse,
   GetEpochResponse,
@@ -67,6 +188,10 @@ export type {
   CreateExportResponse,
   GetExportResponse,
   ListExportsResponse,
+  ListRequest,
+  RequestOptions,
+  WaitForExportOptions,
+  DownloadExportOptions,
   GetMeResponse,
   IssueApiTokenResponse,
   RotateApiTokenResponse,
@@ -81,4 +206,17 @@ export type {
   AuthRegisterResponse,
   AuthLoginResponse,
   ErrorResponse,
+  ChainErrorDetails,
+  ValidationErrorDetails,
+  AgentStateErrorDetails,
+  JsonSchema,
+  JsonSchemaType,
+
+  // Local verification
+  EorVerificationResult,
+  ChainVerificationOptions,
+  ChainVerificationResult,
+  ChainBreak,
+  ReceiptVerificationResult,
+  InclusionVerificationResult,
 } from './types.js';
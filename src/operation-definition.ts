@@ -0,0 +1,262 @@
+import { OperationValidationError } from './errors.js';
+import { validateSchema } from './schema.js';
+import { isBlobReference, resolvePayload } from './blob-store.js';
+import { decryptPayload, encryptionContext, isEncryptedPayload } from './encryption.js';
+import { isRedactedPayload } from './disclosure.js';
+import type {
+  CreateOperationParams,
+  EOR,
+  Operation,
+  OperationInput,
+  OperationParseOptions,
+  OperationPayload,
+  OperationSchema,
+  RegisteredEOR,
+  RegisteredOperation,
+  SealedPayload,
+  TypedEOR,
+  TypedOperation,
+} from './types.js';
+
+// ---------------------------------------------------------------------------
+// Definitions
+// ---------------------------------------------------------------------------
+
+/**
+ * A named operation type with schemas for its subject, action and payload.
+ *
+ * build() validates typed input and produces params for createOperation()
+ * or createAndSubmit(); parse() validates records read back from the API.
+ */
+export class OperationDefinition<
+  S extends object = Record<string, unknown>,
+  A extends object = Record<string, unknown>,
+  P extends OperationPayload = Record<string, unknown> | string | null,
+> {
+  readonly operationType: string;
+  readonly schema: OperationSchema;
+
+  constructor(operationType: string, schema: OperationSchema = {}) {
+    if (!operationType) {
+      throw new Error('Operation type must not be empty');
+    }
+    this.operationType = operationType;
+    this.schema = schema;
+  }
+
+  /**
+   * Validate input and build createOperation() params.
+   *
+   * @throws OperationValidationError if the input does not match the schema
+   */
+  build(input: OperationInput<S, A, P>): CreateOperationParams<S, A, P> {
+    const errors = this.validate({ subject: input.subject, action: input.action, payload: input.payload ?? null });
+    if (errors.length > 0) {
+      throw new OperationValidationError(this.operationType, errors);
+    }
+    return {
+      operationType: this.operationType,
+      subject: input.subject,
+      action: input.action,
+      ...(input.payload !== undefined ? { payload: input.payload } : {}),
+    };
+  }
+
+  /**
+   * Check subject, action and payload against the schema.
+   *
+   * @returns one message per violation, prefixed with `$.subject`, `$.action` or `$.payload`
+   */
+  validate(input: { subject: unknown; action: unknown; payload?: unknown }): string[] {
+    const errors: string[] = [];
+    if (this.schema.subject) {
+      errors.push(...validateSchema(this.schema.subject, input.subject, '$.subject'));
+    }
+    if (this.schema.action) {
+      errors.push(...validateSchema(this.schema.action, input.action, '$.action'));
+    }
+    if (this.schema.payload && 'payload' in input) {
+      errors.push(...validateSchema(this.schema.payload, input.payload ?? null, '$.payload'));
+    }
+    return errors;
+  }
+
+  /**
+   * Validate an audit record or EOR of this type and return it typed.
+   *
+   * Audit records carry subject and action as JSON strings, which are parsed;
+   * they have no payload, so only EORs are checked against the payload schema.
+   *
+   * Payload schemas describe the plaintext. An offloaded or encrypted EOR
+   * payload is resolved with `options.blobStore` and decrypted with
+   * `options.kek`, and the returned EOR carries the plaintext; verify
+   * signatures on the original EOR. A payload that stays sealed (no store or
+   * KEK given, or redacted) is returned as is without a payload check.
+   *
+   * @throws OperationValidationError if the record is of another type, does not match the schema or cannot be unsealed
+   */
+  parse(record: EOR, options?: OperationParseOptions): TypedEOR<S, A, P>;
+  parse(record: Operation): TypedOperation<S, A>;
+  parse(record: Operation | EOR, options: OperationParseOptions = {}): TypedOperation<S, A> | TypedEOR<S, A, P> {
+    if (record.operation_type !== this.operationType) {
+      throw new OperationValidationError(this.operationType, [
+        `$.operation_type: expected "${this.operationType}", got "${record.operation_type}"`,
+      ]);
+    }
+
+    const errors: string[] = [];
+    const subject = parseJsonField(record.subject, '$.subject', errors);
+    const action = parseJsonField(record.action, '$.action', errors);
+    if (!('payload' in record)) {
+      if (errors.length === 0) {
+        errors.push(...this.validate({ subject, action }));
+      }
+      if (errors.length > 0) {
+        throw new OperationValidationError(this.operationType, errors);
+      }
+      return { ...record, subject: subject as S, action: action as A };
+    }
+
+    const unsealed = unsealPayload(record, options, errors);
+    if (errors.length === 0) {
+      errors.push(...this.validate(unsealed.sealed ? { subject, action } : { subject, action, payload: unsealed.payload }));
+    }
+    if (errors.length > 0) {
+      throw new OperationValidationError(this.operationType, errors);
+    }
+    return {
+      ...record,
+      subject: subject as S,
+      action: action as A,
+      payload: unsealed.sealed ? unsealed.payload : unsealed.payload as P,
+    };
+  }
+
+  /**
+   * Whether a record is of this operation type. Narrows records returned by
+   * OperationRegistry.parse(), which are already validated.
+   */
+  is(record: TypedOperation<object, object>): record is TypedOperation<S, A>;
+  is(record: TypedEOR<object, object, OperationPayload>): record is TypedEOR<S, A, P>;
+  is(record: { operation_type: string }): boolean {
+    return record.operation_type === this.operationType;
+  }
+}
+
+/**
+ * Define an operation type with a typed builder and runtime validation.
+ *
+ * ```typescript
+ * const DataAccess = defineOperation<{ userId: string }, { read: boolean }, null>('data.access', {
+ *   subject: { type: 'object', required: ['userId'], properties: { userId: { type: 'string' } } },
+ * });
+ * await client.createAndSubmit(DataAccess.build({ subject: { userId: 'u1' }, action: { read: true } }));
+ * ```
+ */
+export function defineOperation<
+  S extends object = Record<string, unknown>,
+  A extends object = Record<string, unknown>,
+  P extends OperationPayload = Record<string, unknown> | string | null,
+>(operationType: string, schema?: OperationSchema): OperationDefinition<S, A, P> {
+  return new OperationDefinition<S, A, P>(operationType, schema);
+}
+
+// ---------------------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------------------
+
+type AnyOperationDefinition = OperationDefinition<object, object, OperationPayload>;
+
+/**
+ * Looks up definitions by operation type to validate mixed records, such as
+ * queryAudit() results. Narrow the parsed records with `definition.is()`.
+ */
+export class OperationRegistry<D extends AnyOperationDefinition = never> {
+  private readonly definitions = new Map<string, AnyOperationDefinition>();
+
+  /**
+   * @throws Error if another definition is registered for the same operation type
+   */
+  register<N extends AnyOperationDefinition>(definition: N): OperationRegistry<D | N> {
+    const existing = this.definitions.get(definition.operationType);
+    if (existing && existing !== definition) {
+      throw new Error(`Operation type "${definition.operationType}" is already registered`);
+    }
+    this.definitions.set(definition.operationType, definition);
+    return this as unknown as OperationRegistry<D | N>;
+  }
+
+  get(operationType: string): D | undefined {
+    return this.definitions.get(operationType) as D | undefined;
+  }
+
+  has(operationType: string): boolean {
+    return this.definitions.has(operationType);
+  }
+
+  /**
+   * Validate a record against the definition for its operation type.
+   *
+   * @throws OperationValidationError if no definition is registered or the record does not match
+   */
+  parse(record: EOR, options?: OperationParseOptions): RegisteredEOR<D>;
+  parse(record: Operation): RegisteredOperation<D>;
+  parse(record: Operation | EOR, options?: OperationParseOptions): RegisteredOperation<D> | RegisteredEOR<D> {
+    const definition = this.get(record.operation_type);
+    if (!definition) {
+      throw new OperationValidationError(record.operation_type, [
+        `$.operation_type: no definition registered for "${record.operation_type}"`,
+      ]);
+    }
+    // The definition is D's member for this operation type, so its result has that member's shape
+    return 'payload' in record
+      ? definition.parse(record, options) as RegisteredEOR<D>
+      : definition.parse(record) as RegisteredOperation<D>;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * The EOR's payload with offloading and encryption undone where the options
+ * allow, or still sealed. Failures are reported as `$.payload` errors.
+ */
+function unsealPayload(
+  eor: EOR,
+  options: OperationParseOptions,
+  errors: string[],
+): { sealed: true; payload: SealedPayload } | { sealed: false; payload: unknown } {
+  let payload = eor.payload;
+  try {
+    if (isBlobReference(payload)) {
+      if (!options.blobStore) {
+        return { sealed: true, payload };
+      }
+      payload = resolvePayload(payload, options.blobStore);
+    }
+    if (isEncryptedPayload(payload)) {
+      if (!options.kek) {
+        return { sealed: true, payload };
+      }
+      payload = decryptPayload(payload, options.kek, encryptionContext(eor));
+    }
+  } catch (err) {
+    errors.push(`$.payload: ${err instanceof Error ? err.message : String(err)}`);
+    return { sealed: false, payload: undefined };
+  }
+  return isRedactedPayload(payload) ? { sealed: true, payload } : { sealed: false, payload };
+}
+
+function parseJsonField(value: unknown, path: string, errors: string[]): unknown {
+  if (typeof value !== 'string') {
+    return value;
+  }
+  try {
+    return JSON.parse(value);
+  } catch {
+    errors.push(`${path}: not valid JSON`);
+    return value;
+  }
+}
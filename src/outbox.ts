@@ -0,0 +1,111 @@
+import fsp from 'node:fs/promises';
+import path from 'node:path';
+import { writeFileAtomic } from './utils.js';
+import type { Outbox, OutboxEntry, RejectedOutboxEntry } from './types.js';
+
+const ENTRY_FILE_PATTERN = /^(\d{16})\.json$/;
+const REJECTED_DIR = 'rejected';
+
+// ---------------------------------------------------------------------------
+// File outbox
+// ---------------------------------------------------------------------------
+
+/**
+ * Persists signed EORs that could not be delivered, one JSON file per entry.
+ *
+ * Files are named by a zero-padded sequence number so directory order is
+ * chain order; numbers are never reused while a rejected entry holds them. Every write goes to a temp file first and is renamed into place.
+ * Entries the API refused are moved to a `rejected/` subdirectory.
+ */
+export class FileOutbox implements Outbox {
+  private readonly dir: string;
+  private index = new Map<string, string>();
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  async list(): Promise<OutboxEntry[]> {
+    const files = await this.entryFiles();
+    const entries: OutboxEntry[] = [];
+    const index = new Map<string, string>();
+
+    for (const file of files) {
+      const raw = await fsp.readFile(path.join(this.dir, file), 'utf-8');
+      const entry = JSON.parse(raw) as OutboxEntry;
+      entries.push(entry);
+      index.set(entry.eor.operation_id, file);
+    }
+
+    this.index = index;
+    return entries;
+  }
+
+  async append(entry: OutboxEntry): Promise<void> {
+    await fsp.mkdir(this.dir, { recursive: true, mode: 0o700 });
+    // Count dead-lettered entries too, so a drained queue never reuses their names
+    const files = [...await this.entryFiles(), ...await this.entryFiles(REJECTED_DIR)];
+    const last = Math.max(0, ...files.map((name) => Number(name.slice(0, 16))));
+    const file = String(last + 1).padStart(16, '0') + '.json';
+
+    await this.writeEntry(file, entry);
+    this.index.set(entry.eor.operation_id, file);
+  }
+
+  async replace(operationId: string, entry: OutboxEntry): Promise<void> {
+    const file = await this.fileFor(operationId);
+    await this.writeEntry(file, entry);
+    this.index.delete(operationId);
+    this.index.set(entry.eor.operation_id, file);
+  }
+
+  async remove(operationId: string): Promise<void> {
+    const file = await this.fileFor(operationId);
+    await fsp.rm(path.join(this.dir, file), { force: true });
+    this.index.delete(operationId);
+  }
+
+  async reject(operationId: string, entry: RejectedOutboxEntry): Promise<void> {
+    const file = await this.fileFor(operationId);
+    await fsp.mkdir(path.join(this.dir, REJECTED_DIR), { recursive: true, mode: 0o700 });
+    await this.writeEntry(path.join(REJECTED_DIR, file), entry);
+    await this.remove(operationId);
+  }
+
+  /**
+   * Entries moved aside by reject(), oldest first.
+   */
+  async listRejected(): Promise<RejectedOutboxEntry[]> {
+    const files = await this.entryFiles(REJECTED_DIR);
+    return Promise.all(files.map(async (file) => {
+      const raw = await fsp.readFile(path.join(this.dir, REJECTED_DIR, file), 'utf-8');
+      return JSON.parse(raw) as RejectedOutboxEntry;
+    }));
+  }
+
+  private async entryFiles(subdir = ''): Promise<string[]> {
+    try {
+      const names = await fsp.readdir(path.join(this.dir, subdir));
+      return names.filter((name) => ENTRY_FILE_PATTERN.test(name)).sort();
+    } catch {
+      // Directory does not exist yet — empty outbox
+      return [];
+    }
+  }
+
+  private async fileFor(operationId: string): Promise<string> {
+    let file = this.index.get(operationId);
+    if (!file) {
+      await this.list();
+      file = this.index.get(operationId);
+    }
+    if (!file) {
+      throw new Error(`Outbox entry not found for operation "${operationId}"`);
+    }
+    return file;
+  }
+
+  private async writeEntry(file: string, entry: OutboxEntry): Promise<void> {
+    await writeFileAtomic(path.join(this.dir, file), JSON.stringify(entry), 0o600);
+  }
+}
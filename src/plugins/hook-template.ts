@@ -186,12 +186,16 @@ async function main() {
     const toolInput = hookData.tool_input || hookData.toolInput || hookData.input || hookData.parameters || {};
     const sessionId = hookData.session_id || hookData.sessionId || hookData.session || 'unknown';
 
-    // Read agent config and private key
+    // Read agent config, then the key file it names (rotated keys are versioned,
+    // so the kid and key read here always belong together)
     let config;
     let privateKey;
     try {
       config = JSON.parse(fs.readFileSync(CONFIG_PATH, 'utf-8'));
-      privateKey = fs.readFileSync(KEY_PATH, 'utf-8').trim();
+      const keyPath = config.private_key_file
+        ? path.join(ELYDORA_DIR, AGENT_ID, path.basename(config.private_key_file))
+        : KEY_PATH;
+      privateKey = fs.readFileSync(keyPath, 'utf-8').trim();
     } catch (err) {
       logError(new Error('Failed to read agent config/key: ' + err.message));
       return;
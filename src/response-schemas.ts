@@ -0,0 +1,145 @@
+import type { JsonSchema } from './types.js';
+
+// ---------------------------------------------------------------------------
+// Schemas mirroring the entity interfaces in types.ts
+//
+// Unknown properties are allowed so that additive server changes do not
+// break strict mode.
+// ---------------------------------------------------------------------------
+
+const STRING: JsonSchema = { type: 'string' };
+const NULLABLE_STRING: JsonSchema = { type: ['string', 'null'] };
+const TIMESTAMP: JsonSchema = { type: 'number' };
+const NULLABLE_TIMESTAMP: JsonSchema = { type: ['number', 'null'] };
+const INTEGER: JsonSchema = { type: 'integer', minimum: 0 };
+const CURSOR: JsonSchema = { type: ['string', 'null'] };
+
+const AGENT_STATUS: JsonSchema = { type: 'string', enum: ['active', 'frozen', 'revoked'] };
+
+function object(properties: Record<string, JsonSchema>, optional: string[] = []): JsonSchema {
+  return {
+    type: 'object',
+    properties,
+    required: Object.keys(properties).filter((key) => !optional.includes(key)),
+  };
+}
+
+function arrayOf(items: JsonSchema): JsonSchema {
+  return { type: 'array', items };
+}
+
+export const AGENT_SCHEMA = object({
+  agent_id: STRING,
+  org_id: STRING,
+  display_name: STRING,
+  responsible_entity: STRING,
+  integration_type: STRING,
+  status: AGENT_STATUS,
+  created_at: TIMESTAMP,
+  updated_at: TIMESTAMP,
+});
+
+export const AGENT_KEY_SCHEMA = object({
+  kid: STRING,
+  agent_id: STRING,
+  public_key: STRING,
+  algorithm: { type: 'string', const: 'ed25519' },
+  status: { type: 'string', enum: ['active', 'retired', 'revoked'] },
+  created_at: TIMESTAMP,
+  retired_at: NULLABLE_TIMESTAMP,
+});
+
+export const OPERATION_SCHEMA = object({
+  operation_id: STRING,
+  org_id: STRING,
+  agent_id: STRING,
+  seq_no: INTEGER,
+  operation_type: STRING,
+  issued_at: TIMESTAMP,
+  ttl_ms: TIMESTAMP,
+  nonce: STRING,
+  subject: STRING,
+  action: STRING,
+  payload_hash: STRING,
+  prev_chain_hash: STRING,
+  chain_hash: STRING,
+  agent_pubkey_kid: STRING,
+  signature: STRING,
+  r2_payload_key: NULLABLE_STRING,
+  created_at: TIMESTAMP,
+});
+
+export const RECEIPT_SCHEMA = object({
+  receipt_id: STRING,
+  operation_id: STRING,
+  r2_receipt_key: STRING,
+  created_at: TIMESTAMP,
+});
+
+export const EAR_SCHEMA = object({
+  receipt_version: STRING,
+  receipt_id: STRING,
+  operation_id: STRING,
+  org_id: STRING,
+  agent_id: STRING,
+  server_received_at: TIMESTAMP,
+  seq_no: INTEGER,
+  chain_hash: STRING,
+  queue_message_id: STRING,
+  receipt_hash: STRING,
+  elydora_kid: STRING,
+  elydora_signature: STRING,
+});
+
+export const EPOCH_SCHEMA = object({
+  epoch_id: STRING,
+  org_id: STRING,
+  start_time: TIMESTAMP,
+  end_time: TIMESTAMP,
+  root_hash: STRING,
+  leaf_count: INTEGER,
+  r2_epoch_key: STRING,
+  created_at: TIMESTAMP,
+});
+
+export const EXPORT_SCHEMA = object({
+  export_id: STRING,
+  org_id: STRING,
+  status: { type: 'string', enum: ['queued', 'running', 'done', 'failed'] },
+  query_params: STRING,
+  r2_export_key: NULLABLE_STRING,
+  created_at: TIMESTAMP,
+  completed_at: NULLABLE_TIMESTAMP,
+  error: NULLABLE_STRING,
+}, ['error']);
+
+// ---------------------------------------------------------------------------
+// Response envelopes
+// ---------------------------------------------------------------------------
+
+export const AGENT_RESPONSE_SCHEMA = object({ agent: AGENT_SCHEMA, keys: arrayOf(AGENT_KEY_SCHEMA) });
+export const AGENT_STATUS_RESPONSE_SCHEMA = object({ agent: AGENT_SCHEMA, previous_status: AGENT_STATUS });
+export const UPDATE_AGENT_RESPONSE_SCHEMA = object({ agent: AGENT_SCHEMA });
+export const LIST_AGENTS_RESPONSE_SCHEMA = object({ agents: arrayOf(AGENT_SCHEMA), cursor: CURSOR }, ['cursor']);
+
+export const SUBMIT_OPERATION_RESPONSE_SCHEMA = object({ receipt: EAR_SCHEMA });
+export const SUBMIT_OPERATIONS_RESPONSE_SCHEMA = object({
+  results: arrayOf(object({
+    operation_id: STRING,
+    status: INTEGER,
+    receipt: EAR_SCHEMA,
+    error: object({ code: STRING, message: STRING, request_id: STRING }),
+  }, ['status', 'receipt', 'error'])),
+});
+export const GET_OPERATION_RESPONSE_SCHEMA = object({ operation: OPERATION_SCHEMA, receipt: RECEIPT_SCHEMA }, ['receipt']);
+export const AUDIT_QUERY_RESPONSE_SCHEMA = object({
+  operations: arrayOf(OPERATION_SCHEMA),
+  cursor: CURSOR,
+  total_count: INTEGER,
+}, ['cursor']);
+
+export const GET_EPOCH_RESPONSE_SCHEMA = object({ epoch: EPOCH_SCHEMA, anchor: { type: 'object' } }, ['anchor']);
+export const LIST_EPOCHS_RESPONSE_SCHEMA = object({ epochs: arrayOf(EPOCH_SCHEMA) });
+
+export const EXPORT_RESPONSE_SCHEMA = object({ export: EXPORT_SCHEMA, download_url: STRING }, ['download_url']);
+export const LIST_EXPORTS_RESPONSE_SCHEMA = object({ exports: arrayOf(EXPORT_SCHEMA), cursor: CURSOR }, ['cursor']);
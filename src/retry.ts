@@ -0,0 +1,97 @@
+import type { ErrorCode, RetryPolicy, RetryDecisionContext } from './types.js';
+
+const DEFAULT_BASE_DELAY_MS = 1_000;
+const DEFAULT_MAX_DELAY_MS = 10_000;
+const DEFAULT_IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+const DEFAULT_RETRY_ON_CODES: ErrorCode[] = ['RATE_LIMITED'];
+
+export interface ResolvedRetryPolicy {
+  readonly maxAttempts: number;
+  readonly baseDelayMs: number;
+  readonly maxDelayMs: number;
+  readonly jitter: 'none' | 'full' | 'equal';
+  readonly budgetMs: number;
+  readonly idempotentMethods: ReadonlySet<string>;
+  readonly retryOnCodes: ReadonlySet<ErrorCode>;
+  readonly shouldRetry?: (context: RetryDecisionContext) => boolean | undefined;
+}
+
+/**
+ * Fill in defaults. `maxRetries` from the client config seeds maxAttempts.
+ */
+export function resolveRetryPolicy(policy: RetryPolicy | undefined, maxRetries: number): ResolvedRetryPolicy {
+  return {
+    maxAttempts: Math.max(1, policy?.maxAttempts ?? maxRetries + 1),
+    baseDelayMs: policy?.baseDelayMs ?? DEFAULT_BASE_DELAY_MS,
+    maxDelayMs: policy?.maxDelayMs ?? DEFAULT_MAX_DELAY_MS,
+    jitter: policy?.jitter ?? 'full',
+    budgetMs: policy?.budgetMs ?? Infinity,
+    idempotentMethods: new Set((policy?.idempotentMethods ?? DEFAULT_IDEMPOTENT_METHODS).map((m) => m.toUpperCase())),
+    retryOnCodes: new Set(policy?.retryOnCodes ?? DEFAULT_RETRY_ON_CODES),
+    shouldRetry: policy?.shouldRetry,
+  };
+}
+
+/**
+ * Decide whether a failed attempt may be retried (ignoring attempt and time limits).
+ *
+ * - Rate limiting (429 / RATE_LIMITED) and any code in retryOnCodes: always
+ * - Network errors, timeouts and 5xx: only for idempotent requests, since the
+ *   server may already have applied a non-idempotent one
+ * - Anything else: never
+ *
+ * A shouldRetry hook that returns a boolean overrides this.
+ */
+export function isRetryableFailure(policy: ResolvedRetryPolicy, context: RetryDecisionContext): boolean {
+  const override = policy.shouldRetry?.(context);
+  if (override !== undefined) {
+    return override;
+  }
+
+  if (context.status === 429 || (context.code && policy.retryOnCodes.has(context.code))) {
+    return true;
+  }
+
+  const idempotent = context.idempotent || policy.idempotentMethods.has(context.method.toUpperCase());
+  if (context.status === undefined) {
+    return idempotent;
+  }
+  return idempotent && context.status >= 500;
+}
+
+/**
+ * Exponential backoff for a zero-based attempt, with the policy's jitter applied.
+ */
+export function computeBackoff(policy: ResolvedRetryPolicy, attempt: number): number {
+  const delay = Math.min(policy.baseDelayMs * 2 ** attempt, policy.maxDelayMs);
+  switch (policy.jitter) {
+    case 'full':
+      return Math.random() * delay;
+    case 'equal':
+      return delay / 2 + Math.random() * (delay / 2);
+    default:
+      return delay;
+  }
+}
+
+/**
+ * Parse a Retry-After header (delay-seconds or HTTP-date) into milliseconds.
+ *
+ * @returns null if the header is missing or unparseable
+ */
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | null {
+  if (!value) {
+    return null;
+  }
+
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return parseInt(trimmed, 10) * 1000;
+  }
+
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) {
+    return null;
+  }
+  return Math.max(0, date - now);
+}
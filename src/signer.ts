@@ -0,0 +1,258 @@
+import crypto from 'node:crypto';
+import fs from 'node:fs';
+import { spawn } from 'node:child_process';
+import type { ChildProcessWithoutNullStreams } from 'node:child_process';
+import { exportRawPublicKey, importPrivateKey, verifyEd25519 } from './crypto.js';
+import { base64urlEncode } from './utils.js';
+import type { ProcessSignerOptions, Signer } from './types.js';
+
+const DEFAULT_PROCESS_TIMEOUT_MS = 10_000;
+
+// ---------------------------------------------------------------------------
+// Key object signers
+// ---------------------------------------------------------------------------
+
+/**
+ * Signs with a base64url-encoded 32-byte Ed25519 seed, imported once.
+ */
+export class SeedSigner implements Signer {
+  readonly kid: string;
+  readonly publicKey: string;
+  private readonly keyObject: crypto.KeyObject;
+
+  constructor(seed: string, kid: string) {
+    this.keyObject = importPrivateKey(seed);
+    this.kid = kid;
+    this.publicKey = exportRawPublicKey(this.keyObject);
+  }
+
+  sign(data: Buffer): string {
+    return base64urlEncode(crypto.sign(null, data, this.keyObject));
+  }
+}
+
+/**
+ * Signs with an Ed25519 private key in PEM (PKCS8) form, optionally encrypted.
+ */
+export class PemSigner implements Signer {
+  readonly kid: string;
+  readonly publicKey: string;
+  private readonly keyObject: crypto.KeyObject;
+
+  constructor(pem: string | Buffer, kid: string, passphrase?: string) {
+    this.keyObject = crypto.createPrivateKey({ key: pem, format: 'pem', passphrase });
+    if (this.keyObject.asymmetricKeyType !== 'ed25519') {
+      throw new Error(`Expected an Ed25519 private key, got ${this.keyObject.asymmetricKeyType ?? 'unknown'}`);
+    }
+    this.kid = kid;
+    this.publicKey = exportRawPublicKey(this.keyObject);
+  }
+
+  /**
+   * Read the PEM key from a file.
+   */
+  static fromFile(filePath: string, kid: string, passphrase?: string): PemSigner {
+    return new PemSigner(fs.readFileSync(filePath), kid, passphrase);
+  }
+
+  sign(data: Buffer): string {
+    return base64urlEncode(crypto.sign(null, data, this.keyObject));
+  }
+}
+
+// ---------------------------------------------------------------------------
+// External process signer
+// ---------------------------------------------------------------------------
+
+/** Signer processes still running, killed when this process exits */
+const liveProcesses = new Set<ChildProcessWithoutNullStreams>();
+let exitHookInstalled = false;
+
+interface PendingCall {
+  resolve: (response: Record<string, unknown>) => void;
+  reject: (err: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Delegates signing to an external command so the key never enters this process.
+ *
+ * The command is started on first use and kept running. Requests are JSON
+ * lines on its stdin carrying an `id`, and it must answer each with a JSON
+ * line on stdout echoing that `id`, in any order:
+ *
+ * - `{"id":1,"op":"sign","data":"<base64url>"}` → `{"id":1,"signature":"<base64url>"}`
+ * - `{"id":2,"op":"public_key"}` → `{"id":2,"public_key":"<base64url>"}`
+ * - on failure → `{"id":1,"error":"<message>"}`
+ *
+ * Every signature is checked against the public key before it is used. A
+ * request that times out kills the process; the next request restarts it.
+ * The process does not keep Node running and is killed when Node exits.
+ */
+export class ProcessSigner implements Signer {
+  readonly kid: string;
+  private readonly options: ProcessSignerOptions;
+  private cachedPublicKey: string | undefined;
+  private child: ChildProcessWithoutNullStreams | undefined;
+  private readonly pending = new Map<number, PendingCall>();
+  private nextId = 1;
+
+  constructor(options: ProcessSignerOptions) {
+    this.options = options;
+    this.kid = options.kid;
+    this.cachedPublicKey = options.publicKey;
+  }
+
+  /**
+   * Start the signer process and request its public key, unless
+   * `options.publicKey` is given.
+   */
+  static async create(options: ProcessSignerOptions): Promise<ProcessSigner> {
+    const signer = new ProcessSigner(options);
+    if (signer.cachedPublicKey === undefined) {
+      const publicKey = (await signer.call({ op: 'public_key' })).public_key;
+      if (typeof publicKey !== 'string' || !publicKey) {
+        signer.close();
+        throw new Error(`Signer process "${options.command}" returned no public_key`);
+      }
+      signer.cachedPublicKey = publicKey;
+    }
+    return signer;
+  }
+
+  /**
+   * @throws Error if the key was neither given nor fetched by create()
+   */
+  get publicKey(): string {
+    if (this.cachedPublicKey === undefined) {
+      throw new Error(`No public key for signer process "${this.options.command}"; pass publicKey or use ProcessSigner.create()`);
+    }
+    return this.cachedPublicKey;
+  }
+
+  async sign(data: Buffer): Promise<string> {
+    const publicKey = this.publicKey;
+    const signature = (await this.call({ op: 'sign', data: base64urlEncode(data) })).signature;
+    if (typeof signature !== 'string' || !verifyEd25519(publicKey, data, signature)) {
+      throw new Error(`Signer process "${this.options.command}" returned an invalid signature`);
+    }
+    return signature;
+  }
+
+  /**
+   * Stop the signer process, rejecting requests still waiting for an answer.
+   */
+  close(): void {
+    const child = this.child;
+    if (child) {
+      this.fail(child, new Error(`Signer process "${this.options.command}" was closed`));
+      child.kill();
+    }
+  }
+
+  private call(request: Record<string, unknown>): Promise<Record<string, unknown>> {
+    const child = this.start();
+    const id = this.nextId++;
+    const timeoutMs = this.options.timeoutMs ?? DEFAULT_PROCESS_TIMEOUT_MS;
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new Error(`Signer process "${this.options.command}" did not answer within ${timeoutMs}ms`));
+        // A stuck process is replaced on the next request
+        this.close();
+      }, timeoutMs);
+      this.pending.set(id, { resolve, reject, timer });
+      child.stdin.write(JSON.stringify({ id, ...request }) + '\n');
+    });
+  }
+
+  private start(): ChildProcessWithoutNullStreams {
+    if (this.child) {
+      return this.child;
+    }
+
+    const command = this.options.command;
+    const child = spawn(command, this.options.args ?? [], { env: this.options.env, windowsHide: true });
+    this.child = child;
+    liveProcesses.add(child);
+    if (!exitHookInstalled) {
+      exitHookInstalled = true;
+      process.once('exit', () => {
+        for (const live of liveProcesses) live.kill();
+      });
+    }
+
+    let stdout = '';
+    let stderr = '';
+    child.stdout.setEncoding('utf-8');
+    child.stdout.on('data', (chunk: string) => {
+      stdout += chunk;
+      let newline: number;
+      while ((newline = stdout.indexOf('\n')) >= 0) {
+        const line = stdout.slice(0, newline).trim();
+        stdout = stdout.slice(newline + 1);
+        if (line) this.receive(child, line);
+      }
+    });
+    child.stderr.setEncoding('utf-8');
+    child.stderr.on('data', (chunk: string) => {
+      stderr = (stderr + chunk).slice(-1_000);
+    });
+    // Write failures (EPIPE) are reported through 'exit'
+    child.stdin.on('error', () => undefined);
+    child.on('error', (err) => {
+      this.fail(child, new Error(`Signer process "${command}" failed: ${err.message}`));
+    });
+    child.on('exit', (code, signal) => {
+      const detail = stderr.trim();
+      this.fail(child, new Error(`Signer process "${command}" exited with ${code !== null ? `code ${code}` : signal}${detail ? `: ${detail}` : ''}`));
+    });
+
+    // Pending requests hold their own timers; an idle signer must not keep Node running
+    child.unref();
+    for (const stream of [child.stdin, child.stdout, child.stderr]) {
+      (stream as unknown as { unref?: () => void }).unref?.();
+    }
+    return child;
+  }
+
+  private receive(child: ChildProcessWithoutNullStreams, line: string): void {
+    let response: Record<string, unknown>;
+    try {
+      response = JSON.parse(line) as Record<string, unknown>;
+    } catch {
+      this.fail(child, new Error(`Signer process "${this.options.command}" returned invalid JSON`));
+      child.kill();
+      return;
+    }
+
+    const call = typeof response.id === 'number' ? this.pending.get(response.id) : undefined;
+    if (!call) {
+      return;
+    }
+    this.pending.delete(response.id as number);
+    clearTimeout(call.timer);
+    if (typeof response.error === 'string') {
+      call.reject(new Error(`Signer process "${this.options.command}" failed: ${response.error}`));
+    } else {
+      call.resolve(response);
+    }
+  }
+
+  /**
+   * Detach a dead or abandoned process and reject everything waiting on it.
+   */
+  private fail(child: ChildProcessWithoutNullStreams, err: Error): void {
+    liveProcesses.delete(child);
+    if (this.child !== child) {
+      return;
+    }
+    this.child = undefined;
+    for (const call of this.pending.values()) {
+      clearTimeout(call.timer);
+      call.reject(err);
+    }
+    this.pending.clear();
+  }
+}
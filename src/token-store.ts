@@ -0,0 +1,96 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import { writeFileAtomicSync } from './utils.js';
+import type { ApiToken, TokenStore } from './types.js';
+
+// ---------------------------------------------------------------------------
+// In-memory store
+// ---------------------------------------------------------------------------
+
+/**
+ * Keeps the API token in process memory only.
+ */
+export class MemoryTokenStore implements TokenStore {
+  private token: ApiToken | null;
+
+  constructor(initialToken?: ApiToken) {
+    this.token = initialToken ?? null;
+  }
+
+  load(): ApiToken | null {
+    return this.token;
+  }
+
+  save(token: ApiToken): void {
+    this.token = token;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// File store (atomic writes)
+// ---------------------------------------------------------------------------
+
+/**
+ * Persists the API token to a JSON file using write-to-temp + rename.
+ *
+ * Only the `token`, `token_expires_at` and `token_id` fields are touched, so
+ * this can point at a CLI-installed `~/.elydora/<agent_id>/config.json` and
+ * the hook scripts pick up the new token on their next run.
+ */
+export class FileTokenStore implements TokenStore {
+  private readonly filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  load(): ApiToken | null {
+    let config: Record<string, unknown>;
+    try {
+      config = this.readFile();
+    } catch {
+      return null;
+    }
+    if (typeof config.token !== 'string' || !config.token) {
+      return null;
+    }
+    return {
+      token: config.token,
+      expires_at: typeof config.token_expires_at === 'number' ? config.token_expires_at : null,
+      ...(typeof config.token_id === 'string' ? { token_id: config.token_id } : {}),
+    };
+  }
+
+  save(token: ApiToken): void {
+    const config = this.readFile();
+    config.token = token.token;
+    config.token_expires_at = token.expires_at;
+    if (token.token_id !== undefined) {
+      config.token_id = token.token_id;
+    } else {
+      delete config.token_id;
+    }
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    writeFileAtomicSync(this.filePath, JSON.stringify(config, null, 2) + '\n', 0o600);
+  }
+
+  /** Missing file reads as empty; an unparseable one throws so save() never clobbers it. */
+  private readFile(): Record<string, unknown> {
+    let raw: string;
+    try {
+      raw = fs.readFileSync(this.filePath, 'utf-8');
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+        return {};
+      }
+      throw err;
+    }
+
+    const parsed = JSON.parse(raw) as unknown;
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+      throw new Error(`Token file "${this.filePath}" does not contain a JSON object`);
+    }
+    return parsed as Record<string, unknown>;
+  }
+}
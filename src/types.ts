@@ -1,3 +1,6 @@
+import type { ElydoraClient } from './client.js';
+import type { OperationDefinition } from './operation-definition.js';
+
 // ---------------------------------------------------------------------------
 // Enums / status types
 // ---------------------------------------------------------------------------
@@ -35,7 +38,9 @@ export type ErrorCode =
   | 'UNAUTHORIZED'
   | 'FORBIDDEN'
   | 'NOT_FOUND'
-  | 'VALIDATION_ERROR';
+  | 'VALIDATION_ERROR'
+  /** Raised by the client when a response fails strict-mode validation */
+  | 'INVALID_RESPONSE';
 
 // ---------------------------------------------------------------------------
 // Entities
@@ -148,6 +153,8 @@ export interface Export {
   readonly r2_export_key: string | null;
   readonly created_at: number;
   readonly completed_at: number | null;
+  /** Failure reason when status is 'failed' */
+  readonly error?: string | null;
 }
 
 // ---------------------------------------------------------------------------
@@ -216,6 +223,23 @@ export interface SubmitOperationResponse {
   readonly receipt: EAR;
 }
 
+export interface SubmitOperationsRequest {
+  readonly operations: EOR[];
+}
+
+export interface BatchOperationResult {
+  readonly operation_id: string;
+  /** HTTP status the single-operation endpoint would have returned */
+  readonly status?: number;
+  /** Absent on error, or when an earlier attempt had already been accepted */
+  readonly receipt?: EAR;
+  readonly error?: ErrorResponse['error'];
+}
+
+export interface SubmitOperationsResponse {
+  readonly results: BatchOperationResult[];
+}
+
 export interface GetOperationResponse {
   readonly operation: Operation;
   readonly receipt?: Receipt;
@@ -232,6 +256,25 @@ export interface VerifyOperationResponse {
   readonly errors?: string[];
 }
 
+export interface MerkleProofStep {
+  readonly hash: string;
+  readonly position: 'left' | 'right';
+}
+
+export interface InclusionProof {
+  readonly operation_id: string;
+  readonly epoch_id: string;
+  readonly leaf_index: number;
+  /** Merkle leaf: the operation's chain_hash */
+  readonly leaf_hash: string;
+  readonly path: MerkleProofStep[];
+  readonly root_hash: string;
+}
+
+export interface GetInclusionProofResponse {
+  readonly proof: InclusionProof;
+}
+
 export interface AuditQueryRequest {
   readonly org_id?: string;
   readonly agent_id?: string;
@@ -278,12 +321,49 @@ export interface GetExportResponse {
   readonly download_url?: string;
 }
 
+export interface RequestOptions {
+  /** Cancels the call, including any in-flight request and pending retry sleep */
+  readonly signal?: AbortSignal;
+  /** Per-attempt HTTP timeout in ms, overriding the client default; 0 disables it */
+  readonly timeoutMs?: number;
+}
+
+export interface WaitForExportOptions {
+  /** Cancels polling */
+  readonly signal?: AbortSignal;
+  /** Give up after this long (default: wait indefinitely) */
+  readonly maxWaitMs?: number;
+  /**
+   * @deprecated Use maxWaitMs. Ignored by exportAndDownload(), where
+   * timeoutMs is the per-attempt HTTP timeout.
+   */
+  readonly timeoutMs?: number;
+  /** First poll interval; doubles after each poll (default: 1000) */
+  readonly initialPollMs?: number;
+  /** Upper bound on the poll interval (default: 30000) */
+  readonly maxPollMs?: number;
+  /** Called with the export after every poll */
+  readonly onStatus?: (exp: Export) => void;
+}
+
+export interface DownloadExportOptions extends RequestOptions {
+  /** Called after every chunk; totalBytes is null without a Content-Length */
+  readonly onProgress?: (bytesWritten: number, totalBytes: number | null) => void;
+}
+
+export interface ListRequest {
+  readonly cursor?: string;
+  readonly limit?: number;
+}
+
 export interface ListExportsResponse {
   readonly exports: Export[];
+  readonly cursor?: string;
 }
 
 export interface ListAgentsResponse {
   readonly agents: Agent[];
+  readonly cursor?: string;
 }
 
 export interface UpdateAgentRequest {
@@ -304,6 +384,16 @@ export interface UnfreezeAgentResponse {
   readonly previous_status: AgentStatus;
 }
 
+export interface AddAgentKeyRequest {
+  readonly kid: string;
+  readonly public_key: string;
+  readonly algorithm: 'ed25519';
+}
+
+export interface AgentKeyResponse {
+  readonly key: AgentKey;
+}
+
 export interface DeleteAgentResponse {
   readonly deleted: boolean;
 }
@@ -332,6 +422,7 @@ export interface ListMembersResponse {
 
 export interface ListAdminEventsResponse {
   readonly events: AdminEvent[];
+  readonly cursor?: string;
 }
 
 export interface DeepHealthResponse {
@@ -393,6 +484,26 @@ export interface AuthLoginResponse {
   readonly token: string;
 }
 
+/** Details attached to PREV_HASH_MISMATCH, REPLAY_DETECTED and TTL_EXPIRED errors */
+export interface ChainErrorDetails {
+  readonly expected_prev_chain_hash?: string;
+  readonly [key: string]: unknown;
+}
+
+/** Details attached to VALIDATION_ERROR and PAYLOAD_TOO_LARGE errors */
+export interface ValidationErrorDetails {
+  /** Offending request field, when the server reports one */
+  readonly field?: string;
+  readonly [key: string]: unknown;
+}
+
+/** Details attached to UNKNOWN_AGENT and AGENT_FROZEN errors */
+export interface AgentStateErrorDetails {
+  readonly agent_id?: string;
+  readonly status?: AgentStatus;
+  readonly [key: string]: unknown;
+}
+
 export interface ErrorResponse {
   readonly error: {
     readonly code: ErrorCode;
@@ -402,23 +513,633 @@ export interface ErrorResponse {
   };
 }
 
+// ---------------------------------------------------------------------------
+// Local verification
+// ---------------------------------------------------------------------------
+
+export interface EorVerificationResult {
+  readonly valid: boolean;
+  readonly checks: {
+    readonly signature: boolean;
+    readonly payloadHash: boolean;
+  };
+  readonly errors?: string[];
+}
+
+export interface DisclosureVerificationResult {
+  readonly valid: boolean;
+  readonly checks: {
+    /** payload_hash matches the redacted payload */
+    readonly payloadHash: boolean;
+    /** Every disclosure matches its commitment in payload._sd */
+    readonly commitments: boolean;
+    /** EOR signature, when a public key was given */
+    readonly signature?: boolean;
+  };
+  /** Disclosed field values that verified */
+  readonly fields: Record<string, unknown>;
+  readonly errors?: string[];
+}
+
+export interface DecryptAndVerifyOptions {
+  /** Agent public key (base64url); also verifies the EOR signature */
+  readonly publicKey?: string;
+  /** Fetches the envelope of an offloaded payload */
+  readonly blobStore?: BlobStore;
+}
+
+export interface DecryptionResult {
+  readonly valid: boolean;
+  /** Decrypted payload, or undefined if decryption failed */
+  readonly payload?: Record<string, unknown> | string | null;
+  readonly checks: {
+    /** payload_hash matches the ciphertext envelope, or the blob reference it was offloaded behind */
+    readonly payloadHash: boolean;
+    /** Offloaded envelope found and matching its reference, when the payload was offloaded */
+    readonly blob?: boolean;
+    /** Data key unwrapped and ciphertext authenticated */
+    readonly decryption: boolean;
+    /** EOR signature, when a public key was given */
+    readonly signature?: boolean;
+  };
+  readonly errors?: string[];
+}
+
+export interface ChainVerificationOptions {
+  /** prev_chain_hash expected on each agent's first row (default: ZERO_CHAIN_HASH) */
+  readonly startChainHash?: string;
+}
+
+export interface ChainBreak {
+  /** Index of the offending row in the input list */
+  readonly index: number;
+  readonly agentId: string;
+  readonly operationId: string;
+  readonly seqNo: number;
+  readonly reason: 'seq_gap' | 'seq_out_of_order' | 'prev_hash_mismatch' | 'chain_hash_mismatch';
+  readonly expected: string | number;
+  readonly actual: string | number;
+}
+
+export interface ChainVerificationResult {
+  readonly valid: boolean;
+  /** Number of rows verified before the first break (all rows if valid) */
+  readonly checked: number;
+  readonly agentIds: string[];
+  readonly break?: ChainBreak;
+}
+
+export interface ReceiptVerificationResult {
+  readonly valid: boolean;
+  readonly checks: {
+    readonly key: boolean;
+    readonly receiptHash: boolean;
+    readonly signature: boolean;
+  };
+  readonly errors?: string[];
+}
+
+export interface InclusionVerificationResult {
+  readonly valid: boolean;
+  readonly checks: {
+    readonly leaf: boolean;
+    readonly root: boolean;
+  };
+  readonly computedRoot: string;
+  readonly errors?: string[];
+}
+
 // ---------------------------------------------------------------------------
 // Client configuration
 // ---------------------------------------------------------------------------
 
+/**
+ * Persists the agent's prev_chain_hash so the chain survives process restarts.
+ */
+export interface ChainStateStore {
+  /** Return the last saved chain hash, or null if none has been saved */
+  load(): string | null;
+  save(chainHash: string): void;
+}
+
+/**
+ * Produces Ed25519 signatures for EORs. createOperation() needs sign() to be
+ * synchronous; createAndSubmit(), batching, the outbox and rotateKey() also
+ * accept a signer that returns a promise.
+ */
+export interface Signer {
+  /** Key ID placed in agent_pubkey_kid */
+  readonly kid: string;
+  /** Base64url-encoded 32-byte Ed25519 public key */
+  readonly publicKey: string;
+  /** Sign the bytes and return the base64url-encoded 64-byte signature */
+  sign(data: Buffer): string | Promise<string>;
+}
+
+export interface ProcessSignerOptions {
+  /** Executable to run, e.g. a thin client for a local signing daemon */
+  readonly command: string;
+  readonly args?: string[];
+  readonly kid: string;
+  /** Base64url public key; if omitted, ProcessSigner.create() requests it from the process */
+  readonly publicKey?: string;
+  /** Per-request timeout (default: 10000) */
+  readonly timeoutMs?: number;
+  readonly env?: NodeJS.ProcessEnv;
+}
+
+/**
+ * Wraps per-operation data keys. Methods may return promises (e.g. a KMS
+ * call); such KEKs work with createAndSubmit() and decryptAndVerify(), while
+ * createOperation() and the synchronous helpers throw.
+ */
+export interface KeyEncryptionKey {
+  /** Identifies the KEK in the envelope so investigators can pick the right key */
+  readonly kid: string;
+  wrap(dataKey: Buffer): string | Promise<string>;
+  unwrap(wrappedKey: string): Buffer | Promise<Buffer>;
+}
+
+/** Payload sent in place of the plaintext when encryption is enabled. */
+export interface EncryptedPayload {
+  readonly _enc: 'A256GCM';
+  readonly kek_kid: string;
+  /** Base64url data key wrapped by the KEK */
+  readonly wrapped_key: string;
+  readonly iv: string;
+  readonly ciphertext: string;
+  readonly tag: string;
+}
+
+/**
+ * The operation an encrypted payload belongs to, authenticated as AES-GCM
+ * additional data so an envelope cannot be moved to another record.
+ */
+export interface EncryptionContext {
+  readonly org_id: string;
+  readonly agent_id: string;
+  /** The original operation_id for operations re-signed as late */
+  readonly operation_id: string;
+}
+
+export interface EncryptionOptions {
+  readonly kek: KeyEncryptionKey;
+}
+
+/**
+ * Content-addressed storage for offloaded payloads. Methods may return
+ * promises (e.g. object storage); such stores work with createAndSubmit() and
+ * the async helpers, while createOperation() and the synchronous helpers throw.
+ */
+export interface BlobStore {
+  /** Store bytes under their base64url SHA-256; storing the same key twice is a no-op */
+  put(sha256: string, data: Buffer): void | Promise<void>;
+  /** Return the bytes for a key, or null if absent */
+  get(sha256: string): Buffer | null | Promise<Buffer | null>;
+}
+
+/** Payload sent in place of an offloaded body. */
+export interface BlobReference {
+  readonly _ref: 'blob';
+  /** Base64url SHA-256 of the JCS-encoded payload, i.e. its inline payload_hash */
+  readonly sha256: string;
+  /** Size of the JCS-encoded payload in bytes */
+  readonly size: number;
+}
+
+export interface OffloadOptions {
+  /** Offload payloads whose JCS encoding exceeds this many bytes (default: 262144) */
+  readonly thresholdBytes?: number;
+  /** Where bodies are kept (default: DirectoryBlobStore in ~/.elydora/blobs) */
+  readonly store?: BlobStore;
+}
+
+export interface ClockSkew {
+  /** Server clock minus local clock, in ms */
+  readonly offsetMs: number;
+  /** Measurement error bound: half the round trip, plus 1s for Date headers */
+  readonly uncertaintyMs: number;
+  readonly source: 'health' | 'date_header';
+  /** Local time of the measurement */
+  readonly measuredAt: number;
+  /** Correction currently added to issued_at (0 while within uncertainty) */
+  readonly correctionMs: number;
+}
+
+export interface ClockSkewOptions {
+  /** Largest correction applied to issued_at; 0 disables correction (default: 60000) */
+  readonly maxCorrectionMs?: number;
+  /** Warn when the measured skew exceeds this (default: 5000) */
+  readonly warnThresholdMs?: number;
+  /** Called instead of process.emitWarning when the skew exceeds warnThresholdMs */
+  readonly onSkew?: (skew: ClockSkew) => void;
+}
+
+export interface ApiToken {
+  readonly token: string;
+  /** Expiry as a unix timestamp in ms, or null for non-expiring tokens */
+  readonly expires_at: number | null;
+  readonly token_id?: string;
+}
+
+/** Synchronous so the client can load the token in its constructor. */
+export interface TokenStore {
+  /** Return the last saved token, or null if none has been saved */
+  load(): ApiToken | null;
+  save(token: ApiToken): void;
+}
+
+export interface TokenOptions {
+  /** Where the token is loaded from and persisted to after a refresh (default: in memory) */
+  readonly store?: TokenStore;
+  /** Refresh this long before expires_at (default: 300000) */
+  readonly refreshMarginMs?: number;
+  /** Obtain a replacement token (default: rotateApiToken with the current token) */
+  readonly refresh?: (current: ApiToken | null) => Promise<ApiToken>;
+  /** Called after every successful refresh */
+  readonly onRefresh?: (token: ApiToken) => void;
+}
+
 export interface ElydoraClientConfig {
   readonly orgId: string;
   readonly agentId: string;
-  readonly privateKey: string;
+  /** Base64url-encoded Ed25519 seed; required unless `signer` is given */
+  readonly privateKey?: string;
+  /** Signs EORs in place of `privateKey`; its kid overrides `kid` */
+  readonly signer?: Signer;
   readonly baseUrl?: string;
   readonly ttlMs?: number;
   readonly maxRetries?: number;
+  /** Retry behaviour; overrides maxRetries when it sets maxAttempts */
+  readonly retry?: RetryPolicy;
+  /** Per-attempt HTTP timeout in ms; 0 disables it (default: 30000) */
+  readonly timeoutMs?: number;
   readonly kid?: string;
+  /** Where prev_chain_hash is persisted (default: in memory) */
+  readonly chainStateStore?: ChainStateStore;
+  /** Resync and resubmit once on PREV_HASH_MISMATCH in createAndSubmit (default: true) */
+  readonly autoResync?: boolean;
+  /** Called whenever the local chain is resynchronised to the server's chain head */
+  readonly onChainResync?: (event: ChainResyncEvent) => void;
+  /** Durable queue for operations createAndSubmit could not deliver (default: none) */
+  readonly outbox?: Outbox;
+  /** Coalesce createAndSubmit calls into batch submissions (default: off) */
+  readonly batching?: BatchingOptions;
+  /** fetch implementation used for every request (default: global fetch) */
+  readonly fetch?: typeof fetch;
+  /** Request/response middleware, run in array order */
+  readonly interceptors?: ReadonlyArray<Interceptor>;
+  /** Validate agent, operation, receipt, epoch and export responses before returning them (default: false) */
+  readonly strictResponses?: boolean;
+  /** Token lifecycle management: refresh before expiry and once on UNAUTHORIZED (default: off) */
+  readonly tokens?: TokenOptions;
+  /** Encrypt payloads client-side before signing (default: off) */
+  readonly encryption?: EncryptionOptions;
+  /** Move oversized payloads to a blob store and sign a reference instead (default: off) */
+  readonly offload?: OffloadOptions;
+  /** Correction of issued_at for local clock drift, measured from server responses */
+  readonly clockSkew?: ClockSkewOptions;
+  /** Optional API routes the server provides (default: none) */
+  readonly features?: ServerFeatures;
+}
+
+/**
+ * API routes beyond the core surface. Methods that need a disabled feature
+ * fall back to core routes, or throw instead of calling a route the server
+ * may not have.
+ */
+export interface ServerFeatures {
+  /** `GET /v1/operations/:id/proof` serves Merkle inclusion proofs */
+  readonly inclusionProofs?: boolean;
+  /** `POST /v1/operations/batch` accepts chained batches; otherwise submitOperations() sends them one by one */
+  readonly batchSubmit?: boolean;
+  /** `POST /v1/agents/:id/keys` and `POST /v1/agents/:id/keys/:kid/retire` manage extra keys; needed by rotateKey() */
+  readonly agentKeys?: boolean;
+}
+
+export interface InterceptedRequest {
+  readonly method: string;
+  readonly url: string;
+  /** Mutable: interceptors may add or replace headers in place */
+  readonly headers: Record<string, string>;
+  readonly body?: string;
+  readonly signal?: AbortSignal;
+  /** Zero-based retry attempt for this logical request */
+  readonly attempt: number;
 }
 
-export interface CreateOperationParams {
+export interface Interceptor {
+  /** Inspect or modify an outgoing request; return a replacement or nothing */
+  beforeRequest?(request: InterceptedRequest): InterceptedRequest | void | Promise<InterceptedRequest | void>;
+  /** Inspect every HTTP response (including errors); return a replacement or nothing */
+  afterResponse?(response: Response, request: InterceptedRequest): Response | void | Promise<Response | void>;
+  /** Observe transport failures (the error is rethrown afterwards) */
+  onError?(error: unknown, request: InterceptedRequest): void | Promise<void>;
+}
+
+export interface BatchingOptions {
+  /** Send as soon as this many operations are waiting (default: 100) */
+  readonly maxBatchSize?: number;
+  /** Longest time an operation waits for others to join its batch (default: 50) */
+  readonly maxDelayMs?: number;
+}
+
+export interface RetryPolicy {
+  /** Total attempts including the first (default: maxRetries + 1) */
+  readonly maxAttempts?: number;
+  /** Backoff for the first retry; doubles per attempt (default: 1000) */
+  readonly baseDelayMs?: number;
+  /** Cap on a single wait between attempts, including one asked for by Retry-After (default: 10000) */
+  readonly maxDelayMs?: number;
+  /** Jitter applied to backoff delays (default: 'full') */
+  readonly jitter?: 'none' | 'full' | 'equal';
+  /** Give up once attempts plus waits would exceed this many ms (default: unlimited) */
+  readonly budgetMs?: number;
+  /** Methods retried on network errors, timeouts and 5xx (default: GET, HEAD, OPTIONS, PUT, DELETE) */
+  readonly idempotentMethods?: string[];
+  /** Error codes retried for every method (default: ['RATE_LIMITED']) */
+  readonly retryOnCodes?: ErrorCode[];
+  /** Custom rule; return a boolean to override the default decision, undefined to keep it */
+  readonly shouldRetry?: (context: RetryDecisionContext) => boolean | undefined;
+}
+
+export interface RetryDecisionContext {
+  readonly method: string;
+  readonly path: string;
+  /** Zero-based attempt that just failed */
+  readonly attempt: number;
+  /** Whether the SDK considers this request safe to repeat regardless of method */
+  readonly idempotent: boolean;
+  /** HTTP status, absent for network errors and timeouts */
+  readonly status?: number;
+  readonly code?: ErrorCode;
+  readonly error: unknown;
+}
+
+export interface ChainResyncEvent {
+  readonly agentId: string;
+  /** prev_chain_hash the client had before resyncing */
+  readonly localPrevChainHash: string;
+  /** prev_chain_hash the server expected, now adopted by the client */
+  readonly serverPrevChainHash: string;
+  /** Where the expected hash was read from in the error response */
+  readonly source: 'details' | 'message';
+  /** Request ID of the rejected submission */
+  readonly requestId: string;
+}
+
+export interface BootstrapAgentOptions {
+  readonly orgId: string;
+  /** API token allowed to register agents in the organization */
+  readonly token: string;
+  readonly agentId: string;
+  readonly displayName?: string;
+  readonly responsibleEntity?: string;
+  /** Key ID to register (default: {agentId}-key-1) */
+  readonly kid?: string;
+  readonly baseUrl?: string;
+  /** Extra configuration for the returned client */
+  readonly clientConfig?: Omit<ElydoraClientConfig, 'orgId' | 'agentId' | 'privateKey' | 'signer' | 'kid' | 'baseUrl'>;
+}
+
+export interface BootstrapAgentResult {
+  /** Client signing as the new agent, authenticated with the given token */
+  readonly client: ElydoraClient;
+  readonly agent: Agent;
+  readonly keys: AgentKey[];
+  readonly kid: string;
+  /** Base64url-encoded Ed25519 seed; store it securely, it is not recoverable */
+  readonly privateKey: string;
+  readonly publicKey: string;
+}
+
+export interface RotateKeyOptions {
+  /** Signer for the new key (default: a freshly generated seed) */
+  readonly signer?: Signer;
+  /** Key ID for a generated key (default: current kid with its trailing number incremented) */
+  readonly kid?: string;
+  /** Retire the previous key this long after the switch, or null to keep it active (default: 3600000) */
+  readonly retirePreviousAfterMs?: number | null;
+  /** Revoke the previous key with revokeKey() this long after the switch, instead of retiring it (default: never revoke) */
+  readonly revokePreviousAfterMs?: number;
+  /** Reason recorded with the revocation (default: "Rotated to {kid}") */
+  readonly revokeReason?: string;
+}
+
+export interface RotateKeyResult {
+  readonly kid: string;
+  readonly previousKid: string;
+  readonly publicKey: string;
+  /** Generated base64url seed, or null when a signer was supplied; store it securely */
+  readonly privateKey: string | null;
+  /** The key.rotate operation, signed with the previous key */
+  readonly eor: EOR;
+  readonly receipt: EAR | null;
+  /**
+   * Settles once the previous key has been retired, or null when it is kept
+   * or revoked instead. A failure rejects this promise and also emits a
+   * process warning.
+   */
+  readonly retired: Promise<void> | null;
+  /**
+   * Settles once the previous key has been revoked, or null without
+   * `revokePreviousAfterMs`. A failed revocation rejects this promise and
+   * also emits a process warning.
+   */
+  readonly revoked: Promise<void> | null;
+}
+
+/**
+ * Opening for one committed payload field. Kept by the agent and handed to
+ * auditors; commitment = SHA-256(JCS([salt, field, value])).
+ */
+export interface Disclosure {
+  readonly field: string;
+  readonly salt: string;
+  readonly value: unknown;
+}
+
+export interface RedactionOptions {
+  /** Fields also sent in clear; every field is committed either way (default: none) */
+  readonly disclose?: string[];
+}
+
+/** Payload of a redacted operation: field commitments plus the disclosed fields. */
+export interface RedactedPayload {
+  readonly _sd_alg: 'sha-256';
+  readonly _sd: Record<string, string>;
+  readonly [field: string]: unknown;
+}
+
+export interface RedactedOperation {
+  /** EOR whose payload holds `_sd` commitments plus the disclosed fields */
+  readonly eor: EOR;
+  /** One disclosure per payload field; never sent to Elydora */
+  readonly disclosures: Disclosure[];
+}
+
+/** What an auditor needs to check selected fields against the signed EOR. */
+export interface DisclosureBundle {
+  readonly eor: EOR;
+  readonly disclosures: Disclosure[];
+}
+
+/**
+ * Params for a new operation. The type parameters let typed builders such as
+ * OperationDefinition.build() keep their subject, action and payload types;
+ * the client checks at runtime that subject, action and object payloads are
+ * not arrays.
+ */
+export interface CreateOperationParams<
+  S extends object = Record<string, unknown>,
+  A extends object = Record<string, unknown>,
+  P extends OperationPayload = Record<string, unknown> | string | null,
+> {
   readonly operationType: string;
-  readonly subject: Record<string, unknown>;
-  readonly action: Record<string, unknown>;
-  readonly payload?: Record<string, unknown> | string | null;
+  readonly subject: S;
+  readonly action: A;
+  readonly payload?: P;
+  /**
+   * Replace the object payload with salted per-field commitments before
+   * signing; the disclosures come back with the result. Not available with
+   * createOperation(), which cannot return them, or with payload encryption.
+   */
+  readonly redact?: RedactionOptions;
+}
+
+export interface CreateAndSubmitResult {
+  readonly eor: EOR;
+  /** Server receipt; null when queued to the outbox, or accepted by an attempt whose response was lost */
+  readonly receipt: EAR | null;
+  readonly queued: boolean;
+  /** One disclosure per payload field when `redact` was given; never sent to Elydora */
+  readonly disclosures?: Disclosure[];
+}
+
+export interface OutboxEntry {
+  readonly eor: EOR;
+  /** chain_hash of the EOR, i.e. the prev_chain_hash of the next entry */
+  readonly chainHash: string;
+  readonly enqueuedAt: number;
+}
+
+/**
+ * Durable store of signed EORs awaiting delivery, kept in chain order.
+ */
+export interface Outbox {
+  /** All pending entries, oldest first */
+  list(): Promise<OutboxEntry[]>;
+  append(entry: OutboxEntry): Promise<void>;
+  /** Swap an entry for its re-signed version, keeping its position */
+  replace(operationId: string, entry: OutboxEntry): Promise<void>;
+  remove(operationId: string): Promise<void>;
+  /** Move an entry the API refused out of the queue into a dead-letter store (default: remove it) */
+  reject?(operationId: string, entry: RejectedOutboxEntry): Promise<void>;
+}
+
+/**
+ * An outbox entry the API refused with a non-retryable error, e.g.
+ * INVALID_SIGNATURE or VALIDATION_ERROR. It is taken out of the queue so the
+ * entries behind it can still be delivered.
+ */
+export interface RejectedOutboxEntry extends OutboxEntry {
+  readonly rejectedAt: number;
+  readonly error: {
+    readonly statusCode: number;
+    readonly code: ErrorCode;
+    readonly message: string;
+    readonly requestId: string;
+  };
+}
+
+export interface OutboxFlushResult {
+  /** Entries delivered (including ones the server had already received) */
+  readonly submitted: number;
+  /** Entries re-signed as late operations before delivery */
+  readonly reissued: number;
+  readonly receipts: EAR[];
+  /** Entries the API refused, now dead-lettered instead of queued */
+  readonly rejected: RejectedOutboxEntry[];
+}
+
+// ---------------------------------------------------------------------------
+// Schemas
+// ---------------------------------------------------------------------------
+
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+/**
+ * The subset of JSON Schema understood by the SDK's validator.
+ */
+export interface JsonSchema {
+  readonly type?: JsonSchemaType | readonly JsonSchemaType[];
+  readonly enum?: readonly unknown[];
+  readonly const?: unknown;
+  readonly properties?: Readonly<Record<string, JsonSchema>>;
+  readonly required?: readonly string[];
+  /** false rejects unknown properties; a schema validates them (default: allowed) */
+  readonly additionalProperties?: boolean | JsonSchema;
+  readonly items?: JsonSchema;
+  readonly minItems?: number;
+  readonly maxItems?: number;
+  readonly minLength?: number;
+  readonly maxLength?: number;
+  readonly pattern?: string;
+  readonly minimum?: number;
+  readonly maximum?: number;
+}
+
+// ---------------------------------------------------------------------------
+// Operation definitions
+// ---------------------------------------------------------------------------
+
+/**
+ * Schemas for the parts of an operation; omitted parts are not validated.
+ */
+export interface OperationSchema {
+  readonly subject?: JsonSchema;
+  readonly action?: JsonSchema;
+  /** Applies to the plaintext payload, before encryption, redaction or offloading */
+  readonly payload?: JsonSchema;
 }
+
+export type OperationPayload = object | string | null;
+
+export interface OperationInput<S extends object, A extends object, P extends OperationPayload> {
+  readonly subject: S;
+  readonly action: A;
+  readonly payload?: P;
+}
+
+/**
+ * An audit record whose subject and action have been parsed and validated.
+ */
+export type TypedOperation<S extends object, A extends object> =
+  Omit<Operation, 'subject' | 'action'> & { readonly subject: S; readonly action: A };
+
+/** A payload as the EOR carries it when it is encrypted, offloaded or redacted. */
+export type SealedPayload = EncryptedPayload | BlobReference | RedactedPayload;
+
+/**
+ * An EOR whose subject, action and payload have been validated. The payload
+ * is still sealed if parse() could not unseal it, and was not validated then.
+ */
+export type TypedEOR<S extends object, A extends object, P extends OperationPayload> =
+  Omit<EOR, 'subject' | 'action' | 'payload'> & { readonly subject: S; readonly action: A; readonly payload: P | SealedPayload };
+
+export interface OperationParseOptions {
+  /** Decrypts encrypted payloads so they can be validated; must be synchronous */
+  readonly kek?: KeyEncryptionKey;
+  /** Resolves offloaded payloads so they can be validated; must be synchronous */
+  readonly blobStore?: BlobStore;
+}
+
+/** Typed audit record for any definition in `D`. */
+export type RegisteredOperation<D> = D extends OperationDefinition<infer S, infer A, OperationPayload>
+  ? TypedOperation<S, A>
+  : never;
+
+/** Typed EOR for any definition in `D`. */
+export type RegisteredEOR<D> = D extends OperationDefinition<infer S, infer A, infer P>
+  ? TypedEOR<S, A, P>
+  : never;
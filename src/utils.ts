@@ -1,4 +1,6 @@
 import crypto from 'node:crypto';
+import fs from 'node:fs';
+import fsp from 'node:fs/promises';
 
 /**
  * Generate a UUIDv7 (time-ordered UUID per RFC 9562).
@@ -66,3 +68,69 @@ export function base64urlEncode(data: Buffer | Uint8Array): string {
 export function base64urlDecode(input: string): Buffer {
   return Buffer.from(input, 'base64url');
 }
+
+/**
+ * Key ID of an agent's first key, used wherever no kid is given.
+ */
+export function defaultKid(agentId: string): string {
+  return `${agentId}-key-1`;
+}
+
+/**
+ * Next key ID in sequence: `agent-key-1` → `agent-key-2`, `agent-key-v1` → `agent-key-v2`,
+ * `agent-key` → `agent-key-2`.
+ */
+export function nextKid(kid: string): string {
+  const match = kid.match(/^(.*?)(\d+)$/);
+  return match ? `${match[1]}${Number(match[2]) + 1}` : `${kid}-2`;
+}
+
+/**
+ * Write a file through a temp file and rename, so readers never see it half-written.
+ */
+export function writeFileAtomicSync(filePath: string, data: string | Buffer, mode?: number): void {
+  const tmpPath = `${filePath}.${process.pid}.tmp`;
+  fs.writeFileSync(tmpPath, data, { mode });
+  try {
+    try {
+      fs.renameSync(tmpPath, filePath);
+    } catch (err) {
+      if (!isRenameRefused(err)) {
+        throw err;
+      }
+      fs.rmSync(filePath, { force: true });
+      fs.renameSync(tmpPath, filePath);
+    }
+  } catch (err) {
+    fs.rmSync(tmpPath, { force: true });
+    throw err;
+  }
+}
+
+/**
+ * Asynchronous writeFileAtomicSync().
+ */
+export async function writeFileAtomic(filePath: string, data: string | Buffer, mode?: number): Promise<void> {
+  const tmpPath = `${filePath}.${process.pid}.tmp`;
+  await fsp.writeFile(tmpPath, data, { mode });
+  try {
+    try {
+      await fsp.rename(tmpPath, filePath);
+    } catch (err) {
+      if (!isRenameRefused(err)) {
+        throw err;
+      }
+      await fsp.rm(filePath, { force: true });
+      await fsp.rename(tmpPath, filePath);
+    }
+  } catch (err) {
+    await fsp.rm(tmpPath, { force: true });
+    throw err;
+  }
+}
+
+/** Windows may refuse to rename over an existing file. */
+function isRenameRefused(err: unknown): boolean {
+  const code = (err as NodeJS.ErrnoException).code;
+  return code === 'EPERM' || code === 'EEXIST';
+}
@@ -0,0 +1,256 @@
+import type {
+  EOR,
+  EAR,
+  JWK,
+  JWKSResponse,
+  Operation,
+  Epoch,
+  InclusionProof,
+  EorVerificationResult,
+  ChainVerificationOptions,
+  ChainVerificationResult,
+  ChainBreak,
+  ReceiptVerificationResult,
+  InclusionVerificationResult,
+} from './types.js';
+import {
+  jcsCanonicalise,
+  computePayloadHash,
+  computeChainHash,
+  computeReceiptHash,
+  computeMerkleRoot,
+  verifyEd25519,
+  ZERO_CHAIN_HASH,
+} from './crypto.js';
+
+// ---------------------------------------------------------------------------
+// EOR verification
+// ---------------------------------------------------------------------------
+
+/**
+ * Verify an Elydora Operation Record offline against the agent's public key.
+ *
+ * 1. Re-derive payload_hash from the payload and compare
+ * 2. JCS-canonicalize the EOR (minus signature)
+ * 3. Verify the Ed25519 signature with the given public key
+ *
+ * @param publicKey base64url-encoded 32-byte Ed25519 public key for eor.agent_pubkey_kid
+ */
+export function verifyEor(eor: EOR, publicKey: string): EorVerificationResult {
+  const errors: string[] = [];
+
+  // Hook-generated EORs carry chain_hash alongside the signature; neither is signed
+  const { signature, chain_hash: _chainHash, ...eorWithoutSig } = eor as EOR & { chain_hash?: string };
+
+  const payloadHash = computePayloadHash(eor.payload);
+  const payloadHashValid = payloadHash === eor.payload_hash;
+  if (!payloadHashValid) {
+    errors.push(`payload_hash mismatch: expected "${payloadHash}", got "${eor.payload_hash}"`);
+  }
+
+  const canonical = jcsCanonicalise(eorWithoutSig);
+  const signatureValid = verifyEd25519(publicKey, Buffer.from(canonical, 'utf-8'), signature);
+  if (!signatureValid) {
+    errors.push(`Invalid signature for operation "${eor.operation_id}" (kid "${eor.agent_pubkey_kid}")`);
+  }
+
+  return {
+    valid: payloadHashValid && signatureValid,
+    checks: {
+      signature: signatureValid,
+      payloadHash: payloadHashValid,
+    },
+    ...(errors.length > 0 ? { errors } : {}),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Hash-chain verification
+// ---------------------------------------------------------------------------
+
+/**
+ * Verify the hash chain of an ordered list of operations (e.g. queryAudit
+ * results or the operations of a JSON export), independently per agent.
+ *
+ * For each agent, in the order given:
+ * 1. seq_no must increase by exactly 1 from the previous row
+ * 2. prev_chain_hash must equal the previous row's chain_hash
+ *    (or the start hash, ZERO_CHAIN_HASH by default, for the first row)
+ * 3. chain_hash must equal computeChainHash(prev_chain_hash, payload_hash, operation_id, issued_at)
+ *
+ * Verification stops at the first break, which is reported in `break`.
+ */
+export function verifyChain(
+  operations: ReadonlyArray<Operation>,
+  options: ChainVerificationOptions = {},
+): ChainVerificationResult {
+  const startChainHash = options.startChainHash ?? ZERO_CHAIN_HASH;
+  const heads = new Map<string, { chainHash: string; seqNo: number }>();
+
+  for (let index = 0; index < operations.length; index++) {
+    const op = operations[index]!;
+    const head = heads.get(op.agent_id);
+    const chainBreak = (
+      reason: ChainBreak['reason'],
+      expected: string | number,
+      actual: string | number,
+    ): ChainVerificationResult => ({
+      valid: false,
+      checked: index,
+      agentIds: Array.from(heads.keys()),
+      break: {
+        index,
+        agentId: op.agent_id,
+        operationId: op.operation_id,
+        seqNo: op.seq_no,
+        reason,
+        expected,
+        actual,
+      },
+    });
+
+    if (head) {
+      if (op.seq_no <= head.seqNo) {
+        return chainBreak('seq_out_of_order', head.seqNo + 1, op.seq_no);
+      }
+      if (op.seq_no > head.seqNo + 1) {
+        return chainBreak('seq_gap', head.seqNo + 1, op.seq_no);
+      }
+    }
+
+    const expectedPrev = head ? head.chainHash : startChainHash;
+    if (op.prev_chain_hash !== expectedPrev) {
+      return chainBreak('prev_hash_mismatch', expectedPrev, op.prev_chain_hash);
+    }
+
+    const chainHash = computeChainHash(
+      op.prev_chain_hash,
+      op.payload_hash,
+      op.operation_id,
+      op.issued_at,
+    );
+    if (op.chain_hash !== chainHash) {
+      return chainBreak('chain_hash_mismatch', chainHash, op.chain_hash);
+    }
+
+    heads.set(op.agent_id, { chainHash, seqNo: op.seq_no });
+  }
+
+  return {
+    valid: true,
+    checked: operations.length,
+    agentIds: Array.from(heads.keys()),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Receipt (EAR) verification
+// ---------------------------------------------------------------------------
+
+/**
+ * Select the Ed25519 signing key for a kid from a JWKS.
+ */
+export function findJwk(jwks: JWKSResponse | ReadonlyArray<JWK>, kid: string): JWK | undefined {
+  const keys = Array.isArray(jwks) ? jwks : (jwks as JWKSResponse).keys;
+  return keys.find((k) => k.kid === kid && k.kty === 'OKP' && k.crv === 'Ed25519' && !!k.x);
+}
+
+/**
+ * Verify an Elydora Acknowledgement Receipt against the server's JWKS.
+ *
+ * 1. Select the key matching receipt.elydora_kid
+ * 2. Recompute receipt_hash and compare
+ * 3. Verify elydora_signature over the JCS-canonicalized receipt (minus elydora_signature)
+ */
+export function verifyEar(
+  receipt: EAR,
+  jwks: JWKSResponse | ReadonlyArray<JWK>,
+): ReceiptVerificationResult {
+  const errors: string[] = [];
+
+  const jwk = findJwk(jwks, receipt.elydora_kid);
+  if (!jwk) {
+    errors.push(`No Ed25519 key found in JWKS for kid "${receipt.elydora_kid}"`);
+  }
+
+  const receiptHash = computeReceiptHash(receipt);
+  const receiptHashValid = receiptHash === receipt.receipt_hash;
+  if (!receiptHashValid) {
+    errors.push(`receipt_hash mismatch: expected "${receiptHash}", got "${receipt.receipt_hash}"`);
+  }
+
+  let signatureValid = false;
+  if (jwk) {
+    const { elydora_signature: signature, ...receiptWithoutSig } = receipt;
+    const canonical = jcsCanonicalise(receiptWithoutSig);
+    signatureValid = verifyEd25519(jwk.x!, Buffer.from(canonical, 'utf-8'), signature);
+    if (!signatureValid) {
+      errors.push(`Invalid Elydora signature for receipt "${receipt.receipt_id}" (kid "${receipt.elydora_kid}")`);
+    }
+  }
+
+  return {
+    valid: !!jwk && receiptHashValid && signatureValid,
+    checks: {
+      key: !!jwk,
+      receiptHash: receiptHashValid,
+      signature: signatureValid,
+    },
+    ...(errors.length > 0 ? { errors } : {}),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Merkle inclusion verification
+// ---------------------------------------------------------------------------
+
+/**
+ * Verify that an operation is included in an epoch's Merkle tree.
+ *
+ * 1. The proof's leaf_hash must equal the operation's chain_hash
+ * 2. leaf_index must fall within the epoch's leaf_count
+ * 3. Folding the proof path from the leaf must yield epoch.root_hash
+ *
+ * The root is always taken from the epoch, never from the proof itself.
+ */
+export function verifyInclusionProof(
+  proof: InclusionProof,
+  operation: Pick<Operation, 'operation_id' | 'chain_hash'>,
+  epoch: Pick<Epoch, 'epoch_id' | 'root_hash' | 'leaf_count'>,
+): InclusionVerificationResult {
+  const errors: string[] = [];
+
+  let leafValid = true;
+  if (proof.operation_id !== operation.operation_id) {
+    leafValid = false;
+    errors.push(`Proof is for operation "${proof.operation_id}", not "${operation.operation_id}"`);
+  }
+  if (proof.leaf_hash !== operation.chain_hash) {
+    leafValid = false;
+    errors.push(`leaf_hash mismatch: expected "${operation.chain_hash}", got "${proof.leaf_hash}"`);
+  }
+  if (proof.leaf_index < 0 || proof.leaf_index >= epoch.leaf_count) {
+    leafValid = false;
+    errors.push(`leaf_index ${proof.leaf_index} out of range for epoch with ${epoch.leaf_count} leaves`);
+  }
+
+  const computedRoot = computeMerkleRoot(operation.chain_hash, proof.path);
+  let rootValid = computedRoot === epoch.root_hash;
+  if (proof.epoch_id !== epoch.epoch_id) {
+    rootValid = false;
+    errors.push(`Proof is for epoch "${proof.epoch_id}", not "${epoch.epoch_id}"`);
+  }
+  if (computedRoot !== epoch.root_hash) {
+    errors.push(`Merkle root mismatch: expected "${epoch.root_hash}", computed "${computedRoot}"`);
+  }
+
+  return {
+    valid: leafValid && rootValid,
+    checks: {
+      leaf: leafValid,
+      root: rootValid,
+    },
+    computedRoot,
+    ...(errors.length > 0 ? { errors } : {}),
+  };
+}
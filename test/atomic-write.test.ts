@@ -0,0 +1,33 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { writeFileAtomic, writeFileAtomicSync } from '../src/utils.js';
+
+function tempDir(): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), 'elydora-atomic-'));
+}
+
+test('atomic writes replace the file and leave no temp file', async () => {
+  const dir = tempDir();
+  const file = path.join(dir, 'state.json');
+
+  writeFileAtomicSync(file, 'one', 0o600);
+  await writeFileAtomic(file, Buffer.from('two'), 0o600);
+  assert.equal(fs.readFileSync(file, 'utf-8'), 'two');
+  assert.equal(fs.statSync(file).mode & 0o777, 0o600);
+  assert.deepEqual(fs.readdirSync(dir), ['state.json']);
+});
+
+test('a failed rename removes the temp file and keeps the target', async () => {
+  const dir = tempDir();
+  const target = path.join(dir, 'occupied');
+  fs.mkdirSync(target);
+  fs.writeFileSync(path.join(target, 'keep'), '');
+
+  assert.throws(() => writeFileAtomicSync(target, 'data'));
+  await assert.rejects(writeFileAtomic(target, 'data'));
+  assert.deepEqual(fs.readdirSync(dir), ['occupied']);
+  assert.deepEqual(fs.readdirSync(target), ['keep']);
+});
@@ -0,0 +1,82 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { EOR } from '../src/index.js';
+import { apiError, fakeServer, submittedEor, testClient } from './helpers.js';
+
+function params(n: number) {
+  return { operationType: 'data.access', subject: {}, action: {}, payload: { n } };
+}
+
+/** Three EORs chained from the client's head. */
+function chainOfThree(client: ReturnType<typeof testClient>['client']): EOR[] {
+  return [1, 2, 3].map((n) => client.createOperation(params(n)));
+}
+
+// ---------------------------------------------------------------------------
+// submitOperations
+// ---------------------------------------------------------------------------
+
+test('submitOperations uses the batch route only when the server provides it', async () => {
+  const server = fakeServer();
+  const { client } = testClient({ fetch: server.fetch, features: { batchSubmit: true } });
+  const { results } = await client.submitOperations(chainOfThree(client));
+  assert.equal(results.length, 3);
+  assert.ok(results.every((r) => r.receipt));
+  assert.deepEqual(server.requests.map((r) => r.path), ['/v1/operations/batch']);
+});
+
+test('without batchSubmit, submitOperations sends one request per operation', async () => {
+  const server = fakeServer();
+  const { client } = testClient({ fetch: server.fetch });
+  const { results } = await client.submitOperations(chainOfThree(client));
+  assert.equal(results.length, 3);
+  assert.ok(results.every((r) => r.receipt));
+  assert.deepEqual(server.requests.map((r) => r.path), ['/v1/operations', '/v1/operations', '/v1/operations']);
+});
+
+test('the sequential fallback stops at the first rejection', async () => {
+  const server = fakeServer();
+  const { client } = testClient({ fetch: server.fetch });
+  const eors = chainOfThree(client);
+  server.intercept = (req) => submittedEor(req)?.operation_id === eors[1]!.operation_id ? apiError(400, 'VALIDATION_ERROR', 'Bad payload') : undefined;
+
+  const { results } = await client.submitOperations(eors);
+  assert.equal(results.length, 2);
+  assert.ok(results[0]!.receipt);
+  assert.equal(results[1]!.status, 400);
+  assert.equal(results[1]!.error?.code, 'VALIDATION_ERROR');
+  assert.equal(server.requests.length, 2);
+});
+
+// ---------------------------------------------------------------------------
+// Batching mode
+// ---------------------------------------------------------------------------
+
+for (const batchSubmit of [true, false]) {
+  test(`batching coalesces createAndSubmit calls in chain order (batchSubmit: ${batchSubmit})`, async () => {
+    const server = fakeServer();
+    const { client } = testClient({ fetch: server.fetch, batching: { maxDelayMs: 10 }, features: { batchSubmit } });
+
+    const results = await Promise.all([1, 2, 3].map((n) => client.createAndSubmit(params(n))));
+    assert.deepEqual(server.accepted.map((e) => e.payload), [{ n: 1 }, { n: 2 }, { n: 3 }]);
+    assert.ok(results.every((r) => r.receipt && !r.queued));
+    assert.equal(server.requests.length, batchSubmit ? 1 : 3);
+    assert.equal(client.getChainHash(), server.head);
+  });
+}
+
+for (const batchSubmit of [true, false]) {
+  test(`a refused batch item fails only its own call; later ones are re-signed and delivered (batchSubmit: ${batchSubmit})`, async () => {
+    const server = fakeServer();
+    const { client } = testClient({ fetch: server.fetch, batching: { maxBatchSize: 3 }, features: { batchSubmit } });
+    server.refuse = (eor) => typeof eor.payload === 'object' && eor.payload?.n === 2 ? apiError(400, 'VALIDATION_ERROR', 'Bad payload') : undefined;
+
+    const [first, second, third] = await Promise.allSettled([1, 2, 3].map((n) => client.createAndSubmit(params(n))));
+    assert.equal(first!.status, 'fulfilled');
+    assert.equal(second!.status === 'rejected' && second.reason.code, 'VALIDATION_ERROR');
+    assert.equal(third!.status, 'fulfilled');
+    assert.deepEqual(server.accepted.map((e) => e.payload), [{ n: 1 }, { n: 3 }]);
+    assert.equal(server.requests.length, batchSubmit ? 2 : 3);
+    assert.equal(client.getChainHash(), server.head);
+  });
+}
@@ -0,0 +1,152 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  AesKeyEncryptionKey,
+  DirectoryBlobStore,
+  computePayloadHash,
+  decryptPayload,
+  encryptionContext,
+  isBlobReference,
+  isEncryptedPayload,
+  offloadPayload,
+  offloadPayloadAsync,
+  resolvePayload,
+  resolvePayloadAsync,
+  verifyEor,
+} from '../src/index.js';
+import type { BlobReference, BlobStore } from '../src/index.js';
+import { fakeServer, testClient } from './helpers.js';
+
+function tempStore(): { store: DirectoryBlobStore; dir: string } {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'elydora-blobs-'));
+  return { store: new DirectoryBlobStore(dir), dir };
+}
+
+const big = { output: 'x'.repeat(2_000) };
+const params = { operationType: 'tool.output', subject: {}, action: {}, payload: big };
+
+// ---------------------------------------------------------------------------
+// References
+// ---------------------------------------------------------------------------
+
+test('blobs are addressed by the payload_hash the payload would have had inline', () => {
+  const { store } = tempStore();
+  const ref = offloadPayload(big, store);
+  assert.equal(ref.sha256, computePayloadHash(big));
+  assert.match(ref.sha256, /^[A-Za-z0-9_-]{43}$/);
+  assert.equal(ref.size, Buffer.byteLength(JSON.stringify(big)));
+  assert.deepEqual(resolvePayload(ref, store), big);
+});
+
+test('DirectoryBlobStore shards files by the hex form of the key and rejects other keys', () => {
+  const { store, dir } = tempStore();
+  const ref = offloadPayload(big, store);
+  const hex = Buffer.from(ref.sha256, 'base64url').toString('hex');
+  assert.ok(fs.existsSync(path.join(dir, hex.slice(0, 2), hex)));
+
+  // Storing the same blob twice is a no-op
+  offloadPayload(big, store);
+  assert.deepEqual(fs.readdirSync(path.join(dir, hex.slice(0, 2))), [hex]);
+
+  assert.throws(() => store.get(hex), /expected a base64url SHA-256/);
+  assert.throws(() => store.get('../escape'), /Invalid blob key/);
+});
+
+test('resolvePayload rejects missing, truncated or substituted blobs', () => {
+  const { store } = tempStore();
+  const ref = offloadPayload(big, store);
+  const other = offloadPayload({ output: 'y'.repeat(2_000) }, store);
+
+  assert.throws(() => resolvePayload({ ...ref, sha256: computePayloadHash('absent') }, tempStore().store), /not found/);
+  assert.throws(() => resolvePayload({ ...ref, size: ref.size + 1 }, store), /size mismatch/);
+
+  const swapped: BlobStore = { put: () => undefined, get: (key) => key === ref.sha256 ? store.get(other.sha256) : null };
+  assert.throws(() => resolvePayload(ref, swapped), /hash mismatch/);
+});
+
+test('non-reference payloads resolve to themselves', () => {
+  const { store } = tempStore();
+  for (const payload of [{ a: 1 }, 'text', null, { _ref: 'blob', sha256: 1 }]) {
+    assert.equal(isBlobReference(payload), false);
+    assert.equal(resolvePayload(payload as Record<string, unknown>, store), payload);
+  }
+});
+
+// ---------------------------------------------------------------------------
+// Client
+// ---------------------------------------------------------------------------
+
+test('oversized payloads are offloaded behind a signed reference that client.resolvePayload fetches', () => {
+  const { store } = tempStore();
+  const { client, publicKey } = testClient({ offload: { store, thresholdBytes: 1_024 } });
+
+  const eor = client.createOperation(params);
+  assert.equal(isBlobReference(eor.payload), true);
+  assert.equal((eor.payload as unknown as BlobReference).sha256, computePayloadHash(big));
+  assert.equal(verifyEor(eor, publicKey).valid, true);
+  assert.deepEqual(client.resolvePayload(eor.payload), big);
+
+  const small = client.createOperation({ ...params, payload: { n: 1 } });
+  assert.deepEqual(small.payload, { n: 1 });
+  assert.deepEqual(client.resolvePayload(small.payload), { n: 1 });
+});
+
+test('encrypted payloads are offloaded as ciphertext', () => {
+  const { store, dir } = tempStore();
+  const kek = new AesKeyEncryptionKey(Buffer.alloc(32, 3), 'kek-1');
+  const { client } = testClient({ offload: { store, thresholdBytes: 1_024 }, encryption: { kek } });
+
+  const eor = client.createOperation(params);
+  const envelope = client.resolvePayload(eor.payload);
+  assert.ok(isEncryptedPayload(envelope));
+  const hex = Buffer.from((eor.payload as unknown as BlobReference).sha256, 'base64url').toString('hex');
+  assert.ok(!fs.readFileSync(path.join(dir, hex.slice(0, 2), hex), 'utf-8').includes('xxxx'));
+  assert.deepEqual(decryptPayload(envelope, kek, encryptionContext(eor)), big);
+});
+
+/** An in-memory store that answers like object storage: asynchronously. */
+function asyncStore(): BlobStore & { blobs: Map<string, Buffer> } {
+  const blobs = new Map<string, Buffer>();
+  return {
+    blobs,
+    put: async (sha256, data) => {
+      blobs.set(sha256, data);
+    },
+    get: async (sha256) => blobs.get(sha256) ?? null,
+  };
+}
+
+/** A synchronous store over the same blobs. */
+function syncStoreOver(blobs: Map<string, Buffer>): BlobStore {
+  return { put: (sha256, data) => void blobs.set(sha256, data), get: (sha256) => blobs.get(sha256) ?? null };
+}
+
+test('an asynchronous blob store works with createAndSubmit and the async helpers', async () => {
+  const server = fakeServer();
+  const store = asyncStore();
+  const { client, publicKey } = testClient({ fetch: server.fetch, offload: { store, thresholdBytes: 1_024 } });
+
+  const { eor } = await client.createAndSubmit(params);
+  assert.ok(isBlobReference(eor.payload));
+  assert.equal(store.blobs.size, 1);
+  assert.equal(verifyEor(eor, publicKey).valid, true);
+  assert.deepEqual(await resolvePayloadAsync(eor.payload, store), big);
+
+  const ref = await offloadPayloadAsync({ n: 1 }, store);
+  assert.deepEqual(resolvePayload(ref, syncStoreOver(store.blobs)), { n: 1 });
+  await assert.rejects(resolvePayloadAsync({ ...ref, size: ref.size + 1 }, store), /size mismatch/);
+});
+
+test('the synchronous paths reject an asynchronous blob store without advancing the chain', () => {
+  const store = asyncStore();
+  const { client } = testClient({ offload: { store, thresholdBytes: 1_024 } });
+  const head = client.getChainHash();
+  assert.throws(() => client.createOperation(params), /writes asynchronously; use createAndSubmit\(\)/);
+  assert.equal(client.getChainHash(), head);
+
+  assert.throws(() => offloadPayload(big, store), /writes asynchronously/);
+  assert.throws(() => resolvePayload({ _ref: 'blob', sha256: computePayloadHash(big), size: 1 }, store), /reads asynchronously; use resolvePayloadAsync\(\)/);
+});
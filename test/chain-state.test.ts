@@ -0,0 +1,63 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { FileChainStateStore, MemoryChainStateStore, ZERO_CHAIN_HASH } from '../src/index.js';
+import { testClient } from './helpers.js';
+
+function tempDir(): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), 'elydora-chain-'));
+}
+
+const params = { operationType: 'data.access', subject: { user_id: 'u1' }, action: { read: true } };
+
+// ---------------------------------------------------------------------------
+// Stores
+// ---------------------------------------------------------------------------
+
+test('MemoryChainStateStore returns what was saved', () => {
+  const store = new MemoryChainStateStore();
+  assert.equal(store.load(), null);
+  store.save('hash-1');
+  assert.equal(store.load(), 'hash-1');
+  assert.equal(new MemoryChainStateStore('hash-0').load(), 'hash-0');
+});
+
+test('FileChainStateStore writes the hook script format and leaves no temp file', () => {
+  const dir = tempDir();
+  const file = path.join(dir, 'nested', 'chain-state.json');
+  const store = new FileChainStateStore(file);
+  assert.equal(store.load(), null);
+
+  store.save('hash-1');
+  store.save('hash-2');
+  assert.deepEqual(JSON.parse(fs.readFileSync(file, 'utf-8')), { prev_chain_hash: 'hash-2' });
+  assert.deepEqual(fs.readdirSync(path.dirname(file)), ['chain-state.json']);
+  assert.equal(new FileChainStateStore(file).load(), 'hash-2');
+});
+
+test('FileChainStateStore treats a corrupt file as no state', () => {
+  const file = path.join(tempDir(), 'chain-state.json');
+  fs.writeFileSync(file, '{"prev_chain_hash":');
+  assert.equal(new FileChainStateStore(file).load(), null);
+  fs.writeFileSync(file, '{"prev_chain_hash":42}');
+  assert.equal(new FileChainStateStore(file).load(), null);
+});
+
+// ---------------------------------------------------------------------------
+// Client
+// ---------------------------------------------------------------------------
+
+test('a client resumes its chain from the store after a restart', () => {
+  const file = path.join(tempDir(), 'chain-state.json');
+  const first = testClient({ chainStateStore: new FileChainStateStore(file) }).client;
+  assert.equal(first.getChainHash(), ZERO_CHAIN_HASH);
+  first.createOperation(params);
+  const head = first.getChainHash();
+  assert.notEqual(head, ZERO_CHAIN_HASH);
+
+  const restarted = testClient({ chainStateStore: new FileChainStateStore(file) }).client;
+  assert.equal(restarted.getChainHash(), head);
+  assert.equal(restarted.createOperation(params).prev_chain_hash, head);
+});
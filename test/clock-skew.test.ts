@@ -0,0 +1,123 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { ClockSkew } from '../src/index.js';
+import { fakeFetch, testClient } from './helpers.js';
+
+/** A health endpoint whose clock runs `offsetMs` ahead of ours (behind when negative). */
+function healthAt(offsetMs: () => number, unit: 'ms' | 's' = 'ms') {
+  return fakeFetch(() => {
+    const serverTime = Date.now() + offsetMs();
+    return { body: { status: 'ok', version: '1', protocol_version: '1', timestamp: unit === 's' ? serverTime / 1000 : serverTime } };
+  });
+}
+
+const params = { operationType: 'data.access', subject: {}, action: {} };
+
+test('no correction is applied before any measurement', () => {
+  const { client } = testClient();
+  assert.equal(client.getClockSkew(), null);
+  const before = Date.now();
+  const eor = client.createOperation(params);
+  assert.ok(eor.issued_at >= before && eor.issued_at <= Date.now());
+});
+
+test('a measured offset corrects issued_at', async () => {
+  const api = healthAt(() => 20_000);
+  const { client } = testClient({ fetch: api.fetch, clockSkew: { onSkew: () => undefined } });
+
+  const skew = (await client.syncClock())!;
+  assert.equal(skew.source, 'health');
+  assert.ok(Math.abs(skew.offsetMs - 20_000) <= skew.uncertaintyMs);
+  assert.equal(skew.correctionMs, skew.offsetMs);
+
+  const eor = client.createOperation(params);
+  assert.ok(Math.abs(eor.issued_at - (Date.now() + 20_000)) < 1_000);
+});
+
+test('the correction is clamped to maxCorrectionMs in both directions', async () => {
+  for (const [offset, expected] of [[120_000, 60_000], [-120_000, -60_000]] as const) {
+    const api = healthAt(() => offset);
+    const { client } = testClient({ fetch: api.fetch, clockSkew: { onSkew: () => undefined } });
+    const skew = (await client.syncClock())!;
+    assert.ok(Math.abs(skew.offsetMs - offset) <= skew.uncertaintyMs);
+    assert.equal(skew.correctionMs, expected);
+  }
+
+  const api = healthAt(() => 120_000);
+  const { client } = testClient({ fetch: api.fetch, clockSkew: { maxCorrectionMs: 5_000, onSkew: () => undefined } });
+  assert.equal((await client.syncClock())!.correctionMs, 5_000);
+});
+
+test('maxCorrectionMs: 0 measures without correcting', async () => {
+  const api = healthAt(() => 30_000);
+  const { client } = testClient({ fetch: api.fetch, clockSkew: { maxCorrectionMs: 0, onSkew: () => undefined } });
+  const skew = (await client.syncClock())!;
+  assert.ok(skew.offsetMs > 25_000);
+  assert.equal(skew.correctionMs, 0);
+});
+
+test('an offset within the measurement uncertainty is not corrected', async () => {
+  // Date headers have one-second resolution, so an in-sync server is within ±500ms plus half the round trip
+  const api = fakeFetch(() => ({ body: { epochs: [] }, headers: { Date: new Date().toUTCString() } }));
+  const { client } = testClient({ fetch: api.fetch });
+  await client.listEpochs();
+
+  const skew = client.getClockSkew()!;
+  assert.equal(skew.source, 'date_header');
+  assert.ok(skew.uncertaintyMs >= 500);
+  assert.ok(Math.abs(skew.offsetMs) <= skew.uncertaintyMs);
+  assert.equal(skew.correctionMs, 0);
+});
+
+test('health timestamps in seconds are accepted', async () => {
+  const api = healthAt(() => 10_000, 's');
+  const { client } = testClient({ fetch: api.fetch, clockSkew: { onSkew: () => undefined } });
+  const skew = (await client.syncClock())!;
+  assert.ok(Math.abs(skew.offsetMs - 10_000) <= skew.uncertaintyMs + 1);
+});
+
+test('a fresh precise sample is not replaced by a coarser Date header', async () => {
+  const api = fakeFetch((req) => req.path === '/v1/health'
+    ? { body: { status: 'ok', version: '1', protocol_version: '1', timestamp: Date.now() + 8_000 } }
+    : { body: { epochs: [] }, headers: { Date: new Date().toUTCString() } });
+  const { client } = testClient({ fetch: api.fetch, clockSkew: { onSkew: () => undefined } });
+
+  await client.syncClock();
+  const precise = client.getClockSkew()!;
+  await client.listEpochs();
+  assert.equal(client.getClockSkew(), precise);
+});
+
+test('onSkew is called once each time the skew crosses warnThresholdMs', async () => {
+  // Each response is quicker than the last, so every sample is more precise and replaces the previous one
+  let offset = 10_000;
+  const delays = [60, 60, 30, 0];
+  const api = fakeFetch(async () => {
+    await new Promise((resolve) => setTimeout(resolve, delays.shift()));
+    return { body: { status: 'ok', version: '1', protocol_version: '1', timestamp: Date.now() + offset } };
+  });
+  const reported: ClockSkew[] = [];
+  const { client } = testClient({ fetch: api.fetch, clockSkew: { warnThresholdMs: 5_000, onSkew: (s) => reported.push(s) } });
+
+  await client.syncClock();
+  await client.syncClock();
+  assert.equal(reported.length, 1);
+
+  offset = 0;
+  await client.syncClock();
+  offset = 10_000;
+  await client.syncClock();
+  assert.equal(reported.length, 2);
+  assert.ok(reported[1]!.offsetMs > 5_000);
+});
+
+test('without onSkew a large skew emits a process warning', async () => {
+  const api = healthAt(() => -30_000);
+  const { client } = testClient({ fetch: api.fetch });
+  const warned = new Promise<Error>((resolve) => process.once('warning', resolve));
+
+  await client.syncClock();
+  const warning = await warned;
+  assert.equal(warning.name, 'ElydoraClockSkewWarning');
+  assert.match(warning.message, /ahead of the Elydora server/);
+});
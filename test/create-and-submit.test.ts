@@ -0,0 +1,104 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ElydoraNetworkError, ZERO_CHAIN_HASH, verifyEar } from '../src/index.js';
+import type { ChainResyncEvent } from '../src/index.js';
+import { apiError, fakeServer, serverKey, submittedEor, testClient } from './helpers.js';
+
+const params = { operationType: 'data.access', subject: { user_id: 'u1' }, action: { read: true }, payload: { rows: 1 } };
+
+// ---------------------------------------------------------------------------
+// Transactional chain advance
+// ---------------------------------------------------------------------------
+
+test('createAndSubmit advances the chain only once a receipt arrives', async () => {
+  const key = serverKey();
+  const server = fakeServer(key);
+  const { client } = testClient({ fetch: server.fetch });
+
+  const first = await client.createAndSubmit(params);
+  assert.equal(first.queued, false);
+  assert.equal(verifyEar(first.receipt!, [key.jwk]).valid, true);
+  assert.equal(client.getChainHash(), server.head);
+
+  await client.createAndSubmit(params);
+  assert.equal(server.accepted.length, 2);
+  assert.equal(server.accepted[1]!.prev_chain_hash, first.receipt!.chain_hash);
+});
+
+test('createAndSubmit leaves the chain untouched when submission fails', async () => {
+  const server = fakeServer();
+  server.intercept = () => apiError(400, 'VALIDATION_ERROR', 'Bad subject');
+  const { client } = testClient({ fetch: server.fetch });
+
+  await assert.rejects(client.createAndSubmit(params), { code: 'VALIDATION_ERROR' });
+  assert.equal(client.getChainHash(), ZERO_CHAIN_HASH);
+
+  server.intercept = () => { throw new Error('socket hang up'); };
+  await assert.rejects(client.createAndSubmit(params), ElydoraNetworkError);
+  assert.equal(client.getChainHash(), ZERO_CHAIN_HASH);
+
+  server.intercept = undefined;
+  const { eor } = await client.createAndSubmit(params);
+  assert.equal(eor.prev_chain_hash, ZERO_CHAIN_HASH);
+});
+
+test('concurrent createAndSubmit calls chain in call order', async () => {
+  const server = fakeServer();
+  const { client } = testClient({ fetch: server.fetch });
+  const results = await Promise.all([1, 2, 3].map((n) => client.createAndSubmit({ ...params, payload: { n } })));
+  assert.deepEqual(server.accepted.map((e) => e.payload), [{ n: 1 }, { n: 2 }, { n: 3 }]);
+  assert.deepEqual(results.map((r) => r.eor.operation_id), server.accepted.map((e) => e.operation_id));
+});
+
+// ---------------------------------------------------------------------------
+// Resync
+// ---------------------------------------------------------------------------
+
+test('createAndSubmit resyncs on PREV_HASH_MISMATCH and reports the resync', async () => {
+  const server = fakeServer();
+  server.head = 'server-head';
+  const events: ChainResyncEvent[] = [];
+  const { client } = testClient({ fetch: server.fetch, onChainResync: (e) => events.push(e) });
+
+  const { eor, receipt } = await client.createAndSubmit(params);
+  assert.equal(eor.prev_chain_hash, 'server-head');
+  assert.ok(receipt);
+  assert.equal(client.getChainHash(), server.head);
+  assert.deepEqual(events, [{
+    agentId: 'agent-test',
+    localPrevChainHash: ZERO_CHAIN_HASH,
+    serverPrevChainHash: 'server-head',
+    source: 'details',
+    requestId: 'req-test',
+  }]);
+});
+
+test('resync falls back to the expected hash in the error message', async () => {
+  const server = fakeServer();
+  server.intercept = (req) => submittedEor(req)?.prev_chain_hash === 'server-head'
+    ? undefined
+    : { status: 409, body: { error: { code: 'PREV_HASH_MISMATCH', message: 'Expected prev_chain_hash "server-head"', request_id: 'req-1' } } };
+  server.head = 'server-head';
+  const events: ChainResyncEvent[] = [];
+  const { client } = testClient({ fetch: server.fetch, onChainResync: (e) => events.push(e) });
+
+  await client.createAndSubmit(params);
+  assert.equal(events[0]!.source, 'message');
+});
+
+test('createAndSubmit resubmits only once and honours autoResync: false', async () => {
+  const server = fakeServer();
+  server.intercept = () => apiError(409, 'PREV_HASH_MISMATCH', 'moving target', { expected_prev_chain_hash: `head-${server.requests.length}` });
+  const { client } = testClient({ fetch: server.fetch });
+  await assert.rejects(client.createAndSubmit(params), { code: 'PREV_HASH_MISMATCH' });
+  assert.equal(server.requests.length, 2);
+
+  const strict = fakeServer();
+  strict.head = 'server-head';
+  const events: ChainResyncEvent[] = [];
+  const { client: noResync } = testClient({ fetch: strict.fetch, autoResync: false, onChainResync: (e) => events.push(e) });
+  await assert.rejects(noResync.createAndSubmit(params), { code: 'PREV_HASH_MISMATCH' });
+  assert.equal(strict.requests.length, 1);
+  assert.equal(noResync.getChainHash(), ZERO_CHAIN_HASH);
+  assert.equal(events.length, 0);
+});
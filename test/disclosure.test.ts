@@ -0,0 +1,146 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  AesKeyEncryptionKey,
+  FileOutbox,
+  createDisclosureBundle,
+  generateAgentKeyPair,
+  verifyDisclosureBundle,
+  verifyEor,
+} from '../src/index.js';
+import { fakeServer, testClient } from './helpers.js';
+
+const params = {
+  operationType: 'inference',
+  subject: { model: 'm1' },
+  action: { type: 'completion' },
+  payload: { prompt: 'secret prompt', model: 'm1', tokens: 812 },
+};
+
+// ---------------------------------------------------------------------------
+// createRedactedOperation
+// ---------------------------------------------------------------------------
+
+test('a redacted EOR carries commitments plus the disclosed fields, and verifies', () => {
+  const { client, publicKey } = testClient();
+  const { eor, disclosures } = client.createRedactedOperation(params, { disclose: ['model'] });
+
+  const payload = eor.payload as Record<string, unknown>;
+  assert.equal(payload._sd_alg, 'sha-256');
+  assert.deepEqual(Object.keys(payload._sd as object).sort(), ['model', 'prompt', 'tokens']);
+  assert.equal(payload.model, 'm1');
+  assert.equal(payload.prompt, undefined);
+  assert.deepEqual(disclosures.map((d) => d.field), ['prompt', 'model', 'tokens']);
+  assert.equal(verifyEor(eor, publicKey).valid, true);
+});
+
+test('a disclosure bundle verifies the revealed fields against payload_hash and the signature', () => {
+  const { client, publicKey } = testClient();
+  const { eor, disclosures } = client.createRedactedOperation(params);
+
+  const result = verifyDisclosureBundle(createDisclosureBundle(eor, disclosures, ['prompt']), publicKey);
+  assert.equal(result.valid, true);
+  assert.deepEqual(result.checks, { payloadHash: true, commitments: true, signature: true });
+  assert.deepEqual(result.fields, { prompt: 'secret prompt' });
+});
+
+test('a forged disclosure value, a tampered payload or a foreign key fails verification', () => {
+  const { client } = testClient();
+  const { eor, disclosures } = client.createRedactedOperation(params);
+  const bundle = createDisclosureBundle(eor, disclosures, ['tokens']);
+
+  const forged = verifyDisclosureBundle({ ...bundle, disclosures: [{ ...bundle.disclosures[0]!, value: 1 }] });
+  assert.equal(forged.valid, false);
+  assert.equal(forged.checks.commitments, false);
+  assert.deepEqual(forged.fields, {});
+
+  const tampered = verifyDisclosureBundle({ ...bundle, eor: { ...eor, payload: { ...eor.payload as object, tokens: 1 } } });
+  assert.equal(tampered.checks.payloadHash, false);
+
+  const foreign = verifyDisclosureBundle(bundle, generateAgentKeyPair().publicKey);
+  assert.equal(foreign.checks.signature, false);
+  assert.equal(foreign.valid, false);
+});
+
+test('createDisclosureBundle rejects a field without a disclosure', () => {
+  const { client } = testClient();
+  const { eor, disclosures } = client.createRedactedOperation(params);
+  assert.throws(() => createDisclosureBundle(eor, disclosures, ['missing']), /No disclosure for field "missing"/);
+});
+
+test('redaction needs an object payload and no encryption', () => {
+  const { client } = testClient();
+  assert.throws(() => client.createRedactedOperation({ ...params, payload: 'text' }), /object payload/);
+
+  const kek = new AesKeyEncryptionKey(Buffer.alloc(32, 1).toString('base64url'), 'kek-1');
+  const { client: encrypting } = testClient({ encryption: { kek } });
+  assert.throws(() => encrypting.createRedactedOperation(params), /encryption/);
+});
+
+// ---------------------------------------------------------------------------
+// redact through createAndSubmit
+// ---------------------------------------------------------------------------
+
+test('createAndSubmit redacts the payload and returns verifiable disclosures', async () => {
+  const server = fakeServer();
+  const { client, publicKey } = testClient({ fetch: server.fetch });
+
+  const result = await client.createAndSubmit({ ...params, redact: { disclose: ['model'] } });
+  assert.equal(server.accepted[0]!.operation_id, result.eor.operation_id);
+  assert.deepEqual(result.eor.payload, server.accepted[0]!.payload);
+  assert.equal((result.eor.payload as Record<string, unknown>).prompt, undefined);
+
+  const check = verifyDisclosureBundle(createDisclosureBundle(result.eor, result.disclosures!, ['prompt']), publicKey);
+  assert.equal(check.valid, true);
+  assert.equal(check.fields.prompt, 'secret prompt');
+});
+
+test('disclosures survive a resync re-sign', async () => {
+  const server = fakeServer();
+  server.head = 'server-head';
+  const { client, publicKey } = testClient({ fetch: server.fetch });
+
+  const result = await client.createAndSubmit({ ...params, redact: {} });
+  assert.equal(result.eor.prev_chain_hash, 'server-head');
+  const check = verifyDisclosureBundle(createDisclosureBundle(result.eor, result.disclosures!, ['prompt', 'tokens']), publicKey);
+  assert.equal(check.valid, true);
+});
+
+test('batched and queued operations return their disclosures too', async () => {
+  const server = fakeServer();
+  const { client: batching } = testClient({ fetch: server.fetch, batching: { maxDelayMs: 5 } });
+  const batched = await Promise.all([
+    batching.createAndSubmit({ ...params, redact: {} }),
+    batching.createAndSubmit({ ...params, payload: { n: 2 }, redact: {} }),
+  ]);
+  assert.deepEqual(batched.map((r) => r.disclosures!.map((d) => d.field)), [['prompt', 'model', 'tokens'], ['n']]);
+  assert.equal(verifyDisclosureBundle(createDisclosureBundle(batched[1]!.eor, batched[1]!.disclosures!, ['n'])).valid, true);
+
+  const offline = fakeServer();
+  offline.intercept = () => { throw new Error('ECONNREFUSED'); };
+  const outbox = new FileOutbox(fs.mkdtempSync(path.join(os.tmpdir(), 'elydora-outbox-')));
+  const { client: queuing } = testClient({ fetch: offline.fetch, outbox });
+  const queued = await queuing.createAndSubmit({ ...params, redact: {} });
+  assert.equal(queued.queued, true);
+  assert.equal(queued.disclosures!.length, 3);
+  assert.deepEqual((await outbox.list())[0]!.eor.payload, queued.eor.payload);
+});
+
+test('createOperation rejects redact, which it cannot return disclosures for', () => {
+  const { client } = testClient();
+  assert.throws(() => client.createOperation({ ...params, redact: {} }), /createRedactedOperation/);
+});
+
+test('redacted payloads are not offloaded', async () => {
+  const stored: string[] = [];
+  const store = { put: (hash: string) => { stored.push(hash); }, get: () => null };
+  const server = fakeServer();
+  const { client } = testClient({ fetch: server.fetch, offload: { store, thresholdBytes: 1 } });
+
+  const result = await client.createAndSubmit({ ...params, redact: {} });
+  assert.ok((result.eor.payload as Record<string, unknown>)._sd);
+  assert.deepEqual(stored, []);
+});
@@ -0,0 +1,214 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  AesKeyEncryptionKey,
+  DirectoryBlobStore,
+  FileOutbox,
+  decryptAndVerify,
+  decryptPayload,
+  decryptPayloadAsync,
+  encryptPayload,
+  encryptPayloadAsync,
+  encryptionContext,
+  generateAgentKeyPair,
+  isBlobReference,
+  isEncryptedPayload,
+} from '../src/index.js';
+import type { BlobStore, KeyEncryptionKey } from '../src/index.js';
+import { apiError, fakeServer, submittedEor, testClient } from './helpers.js';
+
+const kek = new AesKeyEncryptionKey(Buffer.alloc(32, 7).toString('base64url'), 'kek-1');
+const params = { operationType: 'inference', subject: { model: 'm1' }, action: { type: 'completion' }, payload: { prompt: 'secret' } };
+const context = { org_id: 'org-test', agent_id: 'agent-test', operation_id: 'op-1' };
+
+// ---------------------------------------------------------------------------
+// Envelopes
+// ---------------------------------------------------------------------------
+
+test('encryptPayload round-trips every payload shape for the same context', () => {
+  for (const payload of [{ a: 1, nested: { b: [true, null] } }, 'text', null]) {
+    const envelope = encryptPayload(payload, kek, context);
+    assert.equal(isEncryptedPayload(envelope), true);
+    assert.equal(envelope.kek_kid, 'kek-1');
+    assert.deepEqual(decryptPayload(envelope, kek, context), payload);
+  }
+});
+
+test('decryptPayload rejects another context, another KEK or a modified ciphertext', () => {
+  const envelope = encryptPayload({ a: 1 }, kek, context);
+
+  assert.throws(() => decryptPayload(envelope, kek, { ...context, operation_id: 'op-2' }));
+  assert.throws(() => decryptPayload(envelope, kek, { ...context, agent_id: 'agent-other' }));
+  assert.throws(() => decryptPayload(envelope, kek, { ...context, org_id: 'org-other' }));
+
+  const otherKek = new AesKeyEncryptionKey(Buffer.alloc(32, 8), 'kek-1');
+  assert.throws(() => decryptPayload(envelope, otherKek, context));
+  assert.throws(() => decryptPayload(envelope, new AesKeyEncryptionKey(Buffer.alloc(32, 7), 'kek-2'), context), /kek-1/);
+
+  const flipped = Buffer.from(envelope.ciphertext, 'base64url');
+  flipped[0]! ^= 1;
+  assert.throws(() => decryptPayload({ ...envelope, ciphertext: flipped.toString('base64url') }, kek, context));
+});
+
+// ---------------------------------------------------------------------------
+// Client
+// ---------------------------------------------------------------------------
+
+test('an encrypted EOR decrypts and verifies', async () => {
+  const server = fakeServer();
+  const { client, publicKey } = testClient({ fetch: server.fetch, encryption: { kek } });
+
+  const { eor } = await client.createAndSubmit(params);
+  assert.equal(isEncryptedPayload(eor.payload), true);
+  assert.ok(!JSON.stringify(server.accepted[0]).includes('secret'));
+
+  const result = await decryptAndVerify(eor, kek, { publicKey });
+  assert.equal(result.valid, true);
+  assert.deepEqual(result.payload, { prompt: 'secret' });
+  assert.deepEqual(result.checks, { payloadHash: true, decryption: true, signature: true });
+});
+
+test('an envelope moved into another record fails to decrypt', async () => {
+  const { client } = testClient({ encryption: { kek } });
+  const first = client.createOperation(params);
+  const second = client.createOperation({ ...params, payload: { prompt: 'other' } });
+
+  // Re-signing the moved envelope would keep payload_hash valid; the AAD still does not match
+  const moved = { ...second, payload: first.payload, payload_hash: first.payload_hash };
+  const result = await decryptAndVerify(moved, kek);
+  assert.equal(result.checks.payloadHash, true);
+  assert.equal(result.checks.decryption, false);
+  assert.equal(result.valid, false);
+  assert.equal(result.payload, undefined);
+});
+
+test('a resync re-sign keeps the operation_id the payload was encrypted under', async () => {
+  const server = fakeServer();
+  server.head = 'server-head';
+  const { client } = testClient({ fetch: server.fetch, encryption: { kek } });
+
+  const { eor } = await client.createAndSubmit(params);
+  const rejected = submittedEor(server.requests[0]!)!;
+  assert.equal(eor.prev_chain_hash, 'server-head');
+  assert.equal(eor.operation_id, rejected.operation_id);
+  assert.equal((await decryptAndVerify(eor, kek)).valid, true);
+});
+
+test('late re-issued operations decrypt under their original operation_id', async () => {
+  const server = fakeServer();
+  const outbox = new FileOutbox(fs.mkdtempSync(path.join(os.tmpdir(), 'elydora-outbox-')));
+  const { client, publicKey } = testClient({ fetch: server.fetch, outbox, encryption: { kek } });
+  server.intercept = () => { throw new Error('ECONNREFUSED'); };
+  const { eor: queued } = await client.createAndSubmit(params);
+
+  server.intercept = (req) => {
+    const eor = submittedEor(req);
+    return eor && !eor.action.late ? apiError(400, 'TTL_EXPIRED', 'Operation expired') : undefined;
+  };
+  await client.flushOutbox();
+
+  const late = server.accepted[0]!;
+  assert.notEqual(late.operation_id, queued.operation_id);
+  assert.deepEqual(encryptionContext(late), { org_id: 'org-test', agent_id: 'agent-test', operation_id: queued.operation_id });
+  const result = await decryptAndVerify(late, kek, { publicKey });
+  assert.equal(result.valid, true);
+  assert.deepEqual(result.payload, { prompt: 'secret' });
+});
+
+/** A KEK that answers like a remote KMS: asynchronously. */
+function asyncKek(inner = kek): KeyEncryptionKey {
+  return {
+    kid: inner.kid,
+    wrap: async (dataKey) => inner.wrap(Buffer.from(dataKey)),
+    unwrap: async (wrapped) => inner.unwrap(wrapped),
+  };
+}
+
+test('an asynchronous KEK works with createAndSubmit and decryptAndVerify', async () => {
+  const server = fakeServer();
+  const { client, publicKey } = testClient({ fetch: server.fetch, encryption: { kek: asyncKek() } });
+  const { eor } = await client.createAndSubmit(params);
+  assert.ok(isEncryptedPayload(eor.payload));
+
+  const result = await decryptAndVerify(eor, asyncKek(), { publicKey });
+  assert.equal(result.valid, true);
+  assert.deepEqual(result.payload, { prompt: 'secret' });
+  assert.deepEqual(await decryptPayloadAsync(eor.payload, asyncKek(), encryptionContext(eor)), { prompt: 'secret' });
+  // Envelopes are the same whichever way they were made
+  assert.deepEqual(decryptPayload(await encryptPayloadAsync({ a: 1 }, asyncKek(), context), kek, context), { a: 1 });
+});
+
+test('operations with an asynchronous KEK still chain in call order', async () => {
+  const server = fakeServer();
+  // Later calls wrap faster, so only the call order keeps them in sequence
+  let delayMs = 30;
+  const slowFirst: KeyEncryptionKey = {
+    kid: kek.kid,
+    wrap: (dataKey) => {
+      const copy = Buffer.from(dataKey);
+      return new Promise((resolve) => setTimeout(() => resolve(kek.wrap(copy)), delayMs -= 10));
+    },
+    unwrap: (wrapped) => kek.unwrap(wrapped),
+  };
+  const { client } = testClient({ fetch: server.fetch, encryption: { kek: slowFirst } });
+
+  const results = await Promise.all([1, 2, 3].map((n) => client.createAndSubmit({ ...params, payload: { n } })));
+  assert.deepEqual(server.accepted.map((eor) => eor.operation_id), results.map((r) => r.eor.operation_id));
+  assert.deepEqual(await Promise.all(results.map(async (r) => (await decryptAndVerify(r.eor, kek)).payload)), [{ n: 1 }, { n: 2 }, { n: 3 }]);
+});
+
+test('the synchronous paths reject an asynchronous KEK without advancing the chain', () => {
+  const { client } = testClient({ encryption: { kek: asyncKek() } });
+  const head = client.getChainHash();
+  assert.throws(() => client.createOperation(params), /KEK "kek-1" wraps asynchronously; use createAndSubmit\(\)/);
+  assert.equal(client.getChainHash(), head);
+
+  const envelope = encryptPayload({ a: 1 }, kek, context);
+  assert.throws(() => encryptPayload({ a: 1 }, asyncKek(), context), /wraps asynchronously/);
+  assert.throws(() => decryptPayload(envelope, asyncKek(), context), /unwraps asynchronously; use decryptAndVerify\(\)/);
+});
+
+test('decryptAndVerify fetches an offloaded envelope, checks it against the reference and decrypts it', async () => {
+  const store = new DirectoryBlobStore(fs.mkdtempSync(path.join(os.tmpdir(), 'elydora-blobs-')));
+  const server = fakeServer();
+  const { client, publicKey } = testClient({ fetch: server.fetch, encryption: { kek }, offload: { store, thresholdBytes: 1_024 } });
+  const big = { prompt: 'secret', padding: 'x'.repeat(2_000) };
+  const { eor } = await client.createAndSubmit({ ...params, payload: big });
+  assert.ok(isBlobReference(eor.payload));
+
+  const result = await decryptAndVerify(eor, kek, { publicKey, blobStore: store });
+  assert.equal(result.valid, true);
+  assert.deepEqual(result.payload, big);
+  assert.deepEqual(result.checks, { payloadHash: true, blob: true, decryption: true, signature: true });
+
+  const withoutStore = await decryptAndVerify(eor, kek);
+  assert.equal(withoutStore.valid, false);
+  assert.match(withoutStore.errors!.join('\n'), /pass a blobStore/);
+
+  // A blob swapped for another envelope fails the reference check before decryption is attempted
+  const other = (await client.createAndSubmit({ ...params, payload: { ...big, prompt: 'hidden' } })).eor;
+  assert.ok(isBlobReference(other.payload));
+  const [wanted, substitute] = [eor.payload.sha256, other.payload.sha256];
+  const swapped: BlobStore = { put: () => undefined, get: (sha256) => store.get(sha256 === wanted ? substitute : sha256) };
+  const tampered = await decryptAndVerify(eor, kek, { blobStore: swapped });
+  assert.equal(tampered.checks.blob, false);
+  assert.equal(tampered.checks.decryption, false);
+  assert.match(tampered.errors!.join('\n'), /hash mismatch/);
+});
+
+test('decryptAndVerify reports a plaintext payload and a foreign signature', async () => {
+  const { client } = testClient();
+  const plain = await decryptAndVerify(client.createOperation(params), kek);
+  assert.equal(plain.checks.decryption, false);
+  assert.match(plain.errors!.join('\n'), /does not carry an encrypted payload/);
+
+  const { client: encrypting } = testClient({ encryption: { kek } });
+  const eor = encrypting.createOperation(params);
+  const foreign = await decryptAndVerify(eor, kek, { publicKey: generateAgentKeyPair().publicKey });
+  assert.equal(foreign.checks.decryption, true);
+  assert.equal(foreign.checks.signature, false);
+  assert.equal(foreign.valid, false);
+});
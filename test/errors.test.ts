@@ -0,0 +1,81 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  ElydoraAgentStateError,
+  ElydoraAuthError,
+  ElydoraChainError,
+  ElydoraError,
+  ElydoraNetworkError,
+  ElydoraNotFoundError,
+  ElydoraRateLimitError,
+  ElydoraServerError,
+  ElydoraTimeoutError,
+  ElydoraValidationError,
+} from '../src/index.js';
+import { createElydoraError } from '../src/errors.js';
+import type { ErrorCode } from '../src/index.js';
+import { apiError, fakeFetch, testClient } from './helpers.js';
+
+test('createElydoraError picks the subclass for each error code family', () => {
+  const cases: Array<[ErrorCode, number, new (...args: never[]) => ElydoraError]> = [
+    ['UNAUTHORIZED', 401, ElydoraAuthError],
+    ['FORBIDDEN', 403, ElydoraAuthError],
+    ['INVALID_SIGNATURE', 401, ElydoraAuthError],
+    ['KEY_REVOKED', 401, ElydoraAuthError],
+    ['PREV_HASH_MISMATCH', 409, ElydoraChainError],
+    ['REPLAY_DETECTED', 409, ElydoraChainError],
+    ['TTL_EXPIRED', 400, ElydoraChainError],
+    ['RATE_LIMITED', 429, ElydoraRateLimitError],
+    ['VALIDATION_ERROR', 400, ElydoraValidationError],
+    ['PAYLOAD_TOO_LARGE', 413, ElydoraValidationError],
+    ['UNKNOWN_AGENT', 404, ElydoraAgentStateError],
+    ['AGENT_FROZEN', 403, ElydoraAgentStateError],
+    ['NOT_FOUND', 404, ElydoraNotFoundError],
+    ['INTERNAL_ERROR', 500, ElydoraServerError],
+  ];
+  for (const [code, status, cls] of cases) {
+    const err = createElydoraError(status, code, 'message', 'req-1');
+    assert.ok(err instanceof cls, code);
+    assert.ok(err instanceof ElydoraError);
+    assert.equal(err.code, code);
+  }
+});
+
+test('isRetryable is set for 429 and 5xx only', () => {
+  assert.equal(createElydoraError(429, 'RATE_LIMITED', 'm', 'r').isRetryable, true);
+  assert.equal(createElydoraError(502, 'INTERNAL_ERROR', 'm', 'r').isRetryable, true);
+  assert.equal(createElydoraError(409, 'PREV_HASH_MISMATCH', 'm', 'r').isRetryable, false);
+  assert.equal(createElydoraError(400, 'VALIDATION_ERROR', 'm', 'r').isRetryable, false);
+});
+
+test('API errors carry typed details, request ID and Retry-After', async () => {
+  const api = fakeFetch((req) => req.path === '/v1/epochs'
+    ? { ...apiError(429, 'RATE_LIMITED', 'Slow down'), headers: { 'Retry-After': '7' } }
+    : apiError(409, 'PREV_HASH_MISMATCH', 'Mismatch', { expected_prev_chain_hash: 'abc' }));
+  const { client } = testClient({ fetch: api.fetch });
+
+  await assert.rejects(client.listEpochs(), (err: unknown) => {
+    assert.ok(err instanceof ElydoraRateLimitError);
+    assert.equal(err.retryAfterMs, 7000);
+    assert.equal(err.requestId, 'req-test');
+    return true;
+  });
+  await assert.rejects(client.submitOperation(client.createOperation({ operationType: 't', subject: {}, action: {} })), (err: unknown) => {
+    assert.ok(err instanceof ElydoraChainError);
+    assert.equal(err.details?.expected_prev_chain_hash, 'abc');
+    return true;
+  });
+});
+
+test('transport failures are ElydoraNetworkError with the cause attached', async () => {
+  const cause = new Error('getaddrinfo ENOTFOUND');
+  const api = fakeFetch(() => { throw cause; });
+  const { client } = testClient({ fetch: api.fetch });
+  await assert.rejects(client.listEpochs(), (err: unknown) => {
+    assert.ok(err instanceof ElydoraNetworkError);
+    assert.ok(!(err instanceof ElydoraTimeoutError));
+    assert.equal(err.cause, cause);
+    assert.equal(err.isRetryable, true);
+    return true;
+  });
+});
@@ -0,0 +1,134 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { ExportFailedError } from '../src/index.js';
+import type { Export } from '../src/index.js';
+import { apiError, fakeFetch, testClient } from './helpers.js';
+
+function tempFile(name: string): string {
+  return path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'elydora-export-')), name);
+}
+
+function exportWith(status: Export['status'], extra: Partial<Export> = {}): Export {
+  return { export_id: 'exp-1', org_id: 'org-test', status, query_params: '{}', r2_export_key: null, created_at: 0, completed_at: null, ...extra };
+}
+
+/** An export that is queued, then running, then reaches `final`. */
+function exportApi(final: Export, file = Buffer.from('line 1\nline 2\n')) {
+  const statuses = [exportWith('queued'), exportWith('running'), final];
+  return fakeFetch((req) => {
+    if (req.method === 'POST' && req.path === '/v1/exports') return { status: 201, body: { export: statuses[0] } };
+    if (req.path === '/v1/exports/exp-1') return { body: { export: statuses.shift() ?? final } };
+    if (req.path === '/v1/exports/exp-1/download') return { body: file, headers: { 'Content-Type': 'application/x-ndjson', 'Content-Length': String(file.length) } };
+    return apiError(404, 'NOT_FOUND', 'No route');
+  });
+}
+
+test('waitForExport polls until the export is done', async () => {
+  const api = exportApi(exportWith('done'));
+  const { client } = testClient({ fetch: api.fetch });
+  const seen: string[] = [];
+  const { export: exp } = await client.waitForExport('exp-1', { initialPollMs: 1, onStatus: (e) => seen.push(e.status) });
+  assert.equal(exp.status, 'done');
+  assert.deepEqual(seen, ['queued', 'running', 'done']);
+});
+
+test('waitForExport surfaces the failure reason', async () => {
+  const api = exportApi(exportWith('failed', { error: 'query too broad' }));
+  const { client } = testClient({ fetch: api.fetch });
+  await assert.rejects(client.waitForExport('exp-1', { initialPollMs: 1 }), (err: unknown) => {
+    assert.ok(err instanceof ExportFailedError);
+    assert.equal(err.reason, 'query too broad');
+    return true;
+  });
+});
+
+test('waitForExport gives up after maxWaitMs', async () => {
+  const api = fakeFetch(() => ({ body: { export: exportWith('running') } }));
+  const { client } = testClient({ fetch: api.fetch });
+  await assert.rejects(client.waitForExport('exp-1', { initialPollMs: 20, maxWaitMs: 30 }), /did not finish within 30ms \(status: running\)/);
+});
+
+test('exportAndDownload streams the finished export to disk with progress', async () => {
+  const file = Buffer.alloc(100_000, 'x');
+  const api = exportApi(exportWith('done'), file);
+  const { client } = testClient({ fetch: api.fetch });
+  const dest = tempFile('audit.ndjson');
+  const progress: Array<[number, number | null]> = [];
+
+  const result = await client.exportAndDownload({ start_time: 0, end_time: 1, format: 'json' }, dest, {
+    initialPollMs: 1,
+    onProgress: (bytes, total) => progress.push([bytes, total]),
+  });
+  assert.equal(result.bytes, file.length);
+  assert.equal(result.path, dest);
+  assert.deepEqual(fs.readFileSync(dest), file);
+  assert.deepEqual(progress.at(-1), [file.length, file.length]);
+  assert.deepEqual(fs.readdirSync(path.dirname(dest)), ['audit.ndjson']);
+});
+
+test('downloadExportToFile leaves nothing behind on an API error', async () => {
+  const api = fakeFetch(() => apiError(404, 'NOT_FOUND', 'Export not found'));
+  const { client } = testClient({ fetch: api.fetch });
+  const dest = tempFile('audit.ndjson');
+  await assert.rejects(client.downloadExportToFile('exp-1', dest), { code: 'NOT_FOUND' });
+  assert.deepEqual(fs.readdirSync(path.dirname(dest)), []);
+});
+
+/** A download whose headers arrive at once and whose body trickles in over ~`totalMs`. */
+function slowDownload(chunks: number, totalMs: number): typeof fetch {
+  return (async (_input: string | URL | Request, init?: RequestInit) => {
+    let sent = 0;
+    const body = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        await new Promise((resolve) => setTimeout(resolve, totalMs / chunks));
+        if (init?.signal?.aborted) {
+          controller.error(init.signal.reason);
+        } else if (sent++ < chunks) {
+          controller.enqueue(Buffer.from('chunk\n'));
+        } else {
+          controller.close();
+        }
+      },
+    });
+    return new Response(body, { headers: { 'Content-Type': 'application/x-ndjson' } });
+  }) as typeof fetch;
+}
+
+test('the timeout stops once the download headers arrive', async () => {
+  const { client } = testClient({ fetch: slowDownload(5, 300), timeoutMs: 100 });
+  const data = await client.downloadExport('exp-1');
+  assert.equal(Buffer.from(data).toString(), 'chunk\n'.repeat(5));
+
+  const dest = tempFile('audit.ndjson');
+  const result = await client.downloadExportToFile('exp-1', dest, { timeoutMs: 100 });
+  assert.equal(result.bytes, 'chunk\n'.length * 5);
+});
+
+test('waitForExport still honours the deprecated timeoutMs', async () => {
+  const api = fakeFetch(() => ({ body: { export: exportWith('running') } }));
+  const { client } = testClient({ fetch: api.fetch });
+  await assert.rejects(client.waitForExport('exp-1', { initialPollMs: 20, timeoutMs: 30 }), /did not finish within 30ms/);
+});
+
+test('exportAndDownload treats timeoutMs as the per-attempt timeout, not the wait limit', async () => {
+  const api = exportApi(exportWith('done'));
+  const { client } = testClient({ fetch: api.fetch });
+  const result = await client.exportAndDownload({ start_time: 0, end_time: 1, format: 'json' }, tempFile('audit.ndjson'), {
+    initialPollMs: 5,
+    timeoutMs: 1,
+  });
+  assert.equal(result.export.status, 'done');
+});
+
+test('cancelling waitForExport aborts the pending poll sleep', async () => {
+  const api = fakeFetch(() => ({ body: { export: exportWith('running') } }));
+  const { client } = testClient({ fetch: api.fetch });
+  const controller = new AbortController();
+  const waiting = client.waitForExport('exp-1', { initialPollMs: 60_000, signal: controller.signal });
+  setTimeout(() => controller.abort(new Error('stop')), 10);
+  await assert.rejects(waiting, /stop/);
+  assert.equal(api.requests.length, 1);
+});
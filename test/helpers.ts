@@ -0,0 +1,251 @@
+import {
+  ElydoraClient,
+  ZERO_CHAIN_HASH,
+  computeChainHash,
+  computeReceiptHash,
+  generateAgentKeyPair,
+  jcsCanonicalise,
+  signEd25519,
+} from '../src/index.js';
+import type { EAR, ElydoraClientConfig, EOR, JWK, Operation } from '../src/index.js';
+
+// ---------------------------------------------------------------------------
+// Fake API
+// ---------------------------------------------------------------------------
+
+export interface FakeRequest {
+  readonly method: string;
+  /** Path plus query string, e.g. `/v1/operations` */
+  readonly path: string;
+  readonly headers: Record<string, string>;
+  /** Parsed JSON body, or undefined for requests without one */
+  readonly body: unknown;
+}
+
+export interface FakeResponse {
+  readonly status?: number;
+  /** Serialized as JSON, except Buffers, which are sent as-is */
+  readonly body?: unknown;
+  readonly headers?: Record<string, string>;
+}
+
+export type FakeHandler = (req: FakeRequest) => FakeResponse | Promise<FakeResponse>;
+
+/**
+ * A fetch implementation that routes every request to `handler` and records it.
+ * Throwing from the handler simulates a transport failure; a handler that
+ * never settles simulates a hung connection.
+ */
+export function fakeFetch(handler: FakeHandler): { fetch: typeof fetch; requests: FakeRequest[] } {
+  const requests: FakeRequest[] = [];
+  const fn = async (input: string | URL | Request, init?: RequestInit): Promise<Response> => {
+    const url = new URL(String(input));
+    const req: FakeRequest = {
+      method: init?.method ?? 'GET',
+      path: url.pathname + url.search,
+      headers: { ...(init?.headers as Record<string, string> | undefined) },
+      body: typeof init?.body === 'string' ? JSON.parse(init.body) : undefined,
+    };
+    requests.push(req);
+    const res = await abortable(Promise.resolve(handler(req)), init?.signal ?? undefined);
+    const status = res.status ?? 200;
+    const body = status === 204 ? null : Buffer.isBuffer(res.body) ? res.body : JSON.stringify(res.body ?? {});
+    return new Response(body, {
+      status,
+      headers: { 'Content-Type': 'application/json', ...res.headers },
+    });
+  };
+  return { fetch: fn as typeof fetch, requests };
+}
+
+/** Like fetch, reject with the signal's reason once it aborts. */
+function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+/** The request's JSON object body, or an empty object if it sent none. */
+export function jsonBody(req: FakeRequest): Record<string, unknown> {
+  return typeof req.body === 'object' && req.body !== null && !Array.isArray(req.body)
+    ? req.body as Record<string, unknown>
+    : {};
+}
+
+/** The EOR a `POST /v1/operations` request submitted, or undefined for any other request. */
+export function submittedEor(req: FakeRequest): EOR | undefined {
+  return req.method === 'POST' && req.path === '/v1/operations' ? req.body as EOR : undefined;
+}
+
+export function apiError(status: number, code: string, message: string, details?: Record<string, unknown>): FakeResponse {
+  return {
+    status,
+    body: { error: { code, message, request_id: 'req-test', ...(details ? { details } : {}) } },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Clients
+// ---------------------------------------------------------------------------
+
+/**
+ * A client with a fresh key pair, no retries and a token already set.
+ */
+export function testClient(config: Partial<ElydoraClientConfig> = {}): {
+  client: ElydoraClient;
+  privateKey: string;
+  publicKey: string;
+} {
+  const { privateKey, publicKey } = generateAgentKeyPair();
+  const client = new ElydoraClient({
+    orgId: 'org-test',
+    agentId: 'agent-test',
+    privateKey,
+    kid: 'agent-test-key-1',
+    baseUrl: 'https://api.test',
+    retry: { maxAttempts: 1 },
+    ...config,
+  });
+  client.setToken('token-test');
+  return { client, privateKey, publicKey };
+}
+
+// ---------------------------------------------------------------------------
+// Receipts
+// ---------------------------------------------------------------------------
+
+/**
+ * A server signing key with its JWK, for issuing test receipts.
+ */
+export function serverKey(kid = 'elydora-key-1'): { kid: string; privateKey: string; jwk: JWK } {
+  const { privateKey, publicKey } = generateAgentKeyPair();
+  return { kid, privateKey, jwk: { kty: 'OKP', crv: 'Ed25519', x: publicKey, kid, use: 'sig', alg: 'EdDSA' } };
+}
+
+let seqNo = 0;
+
+/**
+ * An EAR for `eor`, signed the way the server signs receipts.
+ */
+export function signReceipt(eor: EOR, key = serverKey(), chainHash = 'chain-hash'): EAR {
+  const body = {
+    receipt_version: '1.0',
+    receipt_id: `receipt-${eor.operation_id}`,
+    operation_id: eor.operation_id,
+    org_id: eor.org_id,
+    agent_id: eor.agent_id,
+    server_received_at: Date.now(),
+    seq_no: ++seqNo,
+    chain_hash: chainHash,
+    queue_message_id: `msg-${seqNo}`,
+  };
+  const unsigned = {
+    ...body,
+    receipt_hash: computeReceiptHash({ ...body, receipt_hash: '', elydora_kid: '', elydora_signature: '' }),
+    elydora_kid: key.kid,
+  };
+  const signature = signEd25519(key.privateKey, Buffer.from(jcsCanonicalise(unsigned), 'utf-8'));
+  return { ...unsigned, elydora_signature: signature };
+}
+
+// ---------------------------------------------------------------------------
+// Fake chain server
+// ---------------------------------------------------------------------------
+
+export interface FakeServer {
+  readonly fetch: typeof fetch;
+  readonly requests: FakeRequest[];
+  /** EORs accepted so far, in order */
+  readonly accepted: EOR[];
+  /** Server chain head for the agent */
+  head: string;
+  /** Per-request override; return a response to answer instead of the server */
+  intercept?: (req: FakeRequest) => FakeResponse | void;
+  /** Per-operation check on both submit routes; return an error response to refuse the EOR */
+  refuse?: (eor: EOR) => FakeResponse | void;
+}
+
+/**
+ * An in-memory server for POST /v1/operations (and /batch) that keeps one agent's chain:
+ * it accepts an EOR only if it links to the current head and answers
+ * PREV_HASH_MISMATCH (with details) otherwise. Accepted operations are served
+ * by GET /v1/operations/:id; other routes return 404.
+ */
+export function fakeServer(key = serverKey()): FakeServer {
+  const submit = (eor: EOR): FakeResponse => {
+    const refusal = server.refuse?.(eor);
+    if (refusal) {
+      return refusal;
+    }
+    if (server.accepted.some((e) => e.operation_id === eor.operation_id)) {
+      return apiError(409, 'REPLAY_DETECTED', 'Operation already submitted');
+    }
+    if (eor.prev_chain_hash !== server.head) {
+      return apiError(409, 'PREV_HASH_MISMATCH', `Expected prev_chain_hash "${server.head}"`, {
+        expected_prev_chain_hash: server.head,
+      });
+    }
+    server.head = computeChainHash(eor.prev_chain_hash, eor.payload_hash, eor.operation_id, eor.issued_at);
+    server.accepted.push(eor);
+    return { body: { receipt: signReceipt(eor, key, server.head) } };
+  };
+  const api = fakeFetch((req) => {
+    const override = server.intercept?.(req);
+    if (override) {
+      return override;
+    }
+    const eor = submittedEor(req);
+    if (eor) {
+      return submit(eor);
+    }
+    if (req.method === 'POST' && req.path === '/v1/operations/batch') {
+      const results = (jsonBody(req).operations as EOR[]).map((eor) => {
+        const res = submit(eor);
+        const body = res.body as { receipt?: EAR; error?: unknown };
+        return { operation_id: eor.operation_id, status: res.status ?? 200, ...body };
+      });
+      return { body: { results } };
+    }
+    const stored = req.method === 'GET' && server.accepted.findIndex((e) => req.path === `/v1/operations/${e.operation_id}`);
+    if (typeof stored === 'number' && stored >= 0) {
+      return { body: { operation: toOperation(server.accepted[stored]!, stored + 1) } };
+    }
+    return apiError(404, 'NOT_FOUND', `No route for ${req.method} ${req.path}`);
+  });
+  const server: FakeServer = { fetch: api.fetch, requests: api.requests, accepted: [], head: ZERO_CHAIN_HASH };
+  return server;
+}
+
+/**
+ * The audit record the server stores for an accepted EOR.
+ */
+export function toOperation(eor: EOR, seqNo: number): Operation {
+  return {
+    operation_id: eor.operation_id,
+    org_id: eor.org_id,
+    agent_id: eor.agent_id,
+    seq_no: seqNo,
+    operation_type: eor.operation_type,
+    issued_at: eor.issued_at,
+    ttl_ms: eor.ttl_ms,
+    nonce: eor.nonce,
+    subject: JSON.stringify(eor.subject),
+    action: JSON.stringify(eor.action),
+    payload_hash: eor.payload_hash,
+    prev_chain_hash: eor.prev_chain_hash,
+    chain_hash: computeChainHash(eor.prev_chain_hash, eor.payload_hash, eor.operation_id, eor.issued_at),
+    agent_pubkey_kid: eor.agent_pubkey_kid,
+    signature: eor.signature,
+    r2_payload_key: null,
+    created_at: eor.issued_at,
+  };
+}
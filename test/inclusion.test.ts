@@ -0,0 +1,76 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { computeMerkleParent, sha256Base64url, verifyInclusionProof } from '../src/index.js';
+import type { InclusionProof } from '../src/index.js';
+import { fakeFetch, testClient } from './helpers.js';
+
+// Four leaves: root = H(H(l0, l1), H(l2, l3))
+const leaves = ['a', 'b', 'c', 'd'].map((x) => sha256Base64url(x));
+const left = computeMerkleParent(leaves[0]!, leaves[1]!);
+const right = computeMerkleParent(leaves[2]!, leaves[3]!);
+const root = computeMerkleParent(left, right);
+
+const epoch = { epoch_id: 'epoch-1', root_hash: root, leaf_count: 4 };
+const operation = { operation_id: 'op-2', chain_hash: leaves[2]! };
+const proof: InclusionProof = {
+  operation_id: 'op-2',
+  epoch_id: 'epoch-1',
+  leaf_index: 2,
+  leaf_hash: leaves[2]!,
+  path: [{ hash: leaves[3]!, position: 'right' }, { hash: left, position: 'left' }],
+  root_hash: root,
+};
+
+// ---------------------------------------------------------------------------
+// verifyInclusionProof
+// ---------------------------------------------------------------------------
+
+test('verifyInclusionProof folds the path to the epoch root', () => {
+  const result = verifyInclusionProof(proof, operation, epoch);
+  assert.equal(result.valid, true);
+  assert.equal(result.computedRoot, root);
+});
+
+test('verifyInclusionProof takes the root from the epoch, not the proof', () => {
+  const forged = { ...proof, path: [{ hash: leaves[0]!, position: 'right' as const }] };
+  const forgedRoot = computeMerkleParent(leaves[2]!, leaves[0]!);
+  const result = verifyInclusionProof({ ...forged, root_hash: forgedRoot }, operation, epoch);
+  assert.equal(result.valid, false);
+  assert.equal(result.checks.root, false);
+});
+
+test('verifyInclusionProof rejects a proof for another leaf or an out-of-range index', () => {
+  assert.equal(verifyInclusionProof(proof, { ...operation, chain_hash: leaves[1]! }, epoch).checks.leaf, false);
+  assert.equal(verifyInclusionProof({ ...proof, leaf_index: 4 }, operation, epoch).checks.leaf, false);
+});
+
+// ---------------------------------------------------------------------------
+// ElydoraClient.verifyInclusion
+// ---------------------------------------------------------------------------
+
+test('verifyInclusion refuses to call the proof route unless it is enabled', async () => {
+  const api = fakeFetch(() => ({ status: 404 }));
+  const { client } = testClient({ fetch: api.fetch });
+  await assert.rejects(client.verifyInclusion('op-2'), /Inclusion proofs are not enabled/);
+  await assert.rejects(client.getInclusionProof('op-2'), /Inclusion proofs are not enabled/);
+  assert.equal(api.requests.length, 0);
+});
+
+test('verifyInclusion checks the fetched proof against the fetched epoch', async () => {
+  const api = fakeFetch((req) => {
+    switch (req.path) {
+      case '/v1/operations/op-2/proof':
+        return { body: { proof } };
+      case '/v1/operations/op-2':
+        return { body: { operation: { ...operation } } };
+      case '/v1/epochs/epoch-1':
+        return { body: { epoch: { ...epoch } } };
+      default:
+        return { status: 404 };
+    }
+  });
+  const { client } = testClient({ fetch: api.fetch, features: { inclusionProofs: true } });
+  const result = await client.verifyInclusion('op-2');
+  assert.equal(result.valid, true);
+  assert.equal(api.requests.length, 3);
+});
@@ -0,0 +1,63 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ElydoraNetworkError } from '../src/index.js';
+import type { InterceptedRequest } from '../src/index.js';
+import { fakeFetch, testClient } from './helpers.js';
+
+test('every request goes through the configured fetch', async () => {
+  const api = fakeFetch((req) => {
+    if (req.path.endsWith('/download')) return { body: Buffer.from('data') };
+    if (req.path.startsWith('/.well-known')) return { body: { keys: [] } };
+    return { body: { status: 'ok', version: '1', protocol_version: '1', timestamp: 0 } };
+  });
+  const { client } = testClient({ fetch: api.fetch });
+  await client.health();
+  await client.getJWKS();
+  await client.downloadExport('exp-1');
+  await client.listEpochs();
+  assert.deepEqual(api.requests.map((r) => r.path), ['/v1/health', '/.well-known/elydora/jwks.json', '/v1/exports/exp-1/download', '/v1/epochs']);
+});
+
+test('beforeRequest interceptors run in order and may replace the request', async () => {
+  const api = fakeFetch(() => ({ body: { epochs: [] } }));
+  const { client } = testClient({
+    fetch: api.fetch,
+    interceptors: [
+      { beforeRequest(req) { req.headers['traceparent'] = 'trace-1'; } },
+      { beforeRequest(req): InterceptedRequest { return { ...req, headers: { ...req.headers, 'x-order': req.headers['traceparent'] ?? 'missing' } }; } },
+    ],
+  });
+  await client.listEpochs();
+  assert.equal(api.requests[0]!.headers['traceparent'], 'trace-1');
+  assert.equal(api.requests[0]!.headers['x-order'], 'trace-1');
+  assert.equal(api.requests[0]!.headers['Authorization'], 'Bearer token-test');
+});
+
+test('afterResponse interceptors see every response and may replace it', async () => {
+  const api = fakeFetch(() => ({ body: { epochs: [] } }));
+  const statuses: number[] = [];
+  const { client } = testClient({
+    fetch: api.fetch,
+    interceptors: [{
+      afterResponse(res) {
+        statuses.push(res.status);
+        return new Response(JSON.stringify({ epochs: [{ epoch_id: 'replaced' }] }), { status: 200 });
+      },
+    }],
+  });
+  const { epochs } = await client.listEpochs();
+  assert.equal(epochs[0]!.epoch_id, 'replaced');
+  assert.deepEqual(statuses, [200]);
+});
+
+test('onError observes transport failures on each attempt before they propagate', async () => {
+  const api = fakeFetch(() => { throw new Error('ECONNRESET'); });
+  const attempts: number[] = [];
+  const { client } = testClient({
+    fetch: api.fetch,
+    retry: { maxAttempts: 2, baseDelayMs: 1 },
+    interceptors: [{ onError(err, req) { assert.match(String(err), /ECONNRESET/); attempts.push(req.attempt); } }],
+  });
+  await assert.rejects(client.listEpochs(), ElydoraNetworkError);
+  assert.deepEqual(attempts, [0, 1]);
+});
@@ -0,0 +1,60 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { bootstrapAgent, defaultKid, nextKid } from '../src/index.js';
+import type { RegisterAgentRequest } from '../src/index.js';
+import { fakeFetch, testClient } from './helpers.js';
+
+test('defaultKid numbers the first key 1', () => {
+  assert.equal(defaultKid('agent-a'), 'agent-a-key-1');
+});
+
+test('nextKid increments the trailing number, or appends -2', () => {
+  assert.equal(nextKid('agent-a-key-1'), 'agent-a-key-2');
+  assert.equal(nextKid('agent-a-key-9'), 'agent-a-key-10');
+  assert.equal(nextKid('agent-a-key-v1'), 'agent-a-key-v2');
+  assert.equal(nextKid('agent-a-key'), 'agent-a-key-2');
+});
+
+test('the client signs with the default kid when none is configured', () => {
+  const { client } = testClient({ kid: undefined });
+  const eor = client.createOperation({ operationType: 'data.access', subject: {}, action: {} });
+  assert.equal(eor.agent_pubkey_kid, defaultKid('agent-test'));
+});
+
+test('bootstrapAgent registers and signs with the same default kid as the client', async () => {
+  const api = fakeFetch((req) => ({
+    body: {
+      agent: {
+        agent_id: 'agent-new',
+        org_id: 'org-test',
+        display_name: 'Agent',
+        responsible_entity: 'ops',
+        integration_type: 'sdk',
+        status: 'active',
+        created_at: 0,
+        updated_at: 0,
+      },
+      keys: (req.body as RegisterAgentRequest).keys.map((k) => ({
+        ...k,
+        agent_id: 'agent-new',
+        algorithm: 'ed25519',
+        status: 'active',
+        created_at: 0,
+        retired_at: null,
+      })),
+    },
+  }));
+
+  const result = await bootstrapAgent({
+    orgId: 'org-test',
+    token: 'token-test',
+    agentId: 'agent-new',
+    baseUrl: 'https://api.test',
+    clientConfig: { fetch: api.fetch },
+  });
+
+  assert.equal(result.kid, defaultKid('agent-new'));
+  assert.equal((api.requests[0]!.body as RegisterAgentRequest).keys[0]!.kid, defaultKid('agent-new'));
+  const eor = result.client.createOperation({ operationType: 'data.access', subject: {}, action: {} });
+  assert.equal(eor.agent_pubkey_kid, defaultKid('agent-new'));
+});
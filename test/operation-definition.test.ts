@@ -0,0 +1,165 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import {
+  AesKeyEncryptionKey,
+  DirectoryBlobStore,
+  OperationRegistry,
+  OperationValidationError,
+  defineOperation,
+  isBlobReference,
+  isEncryptedPayload,
+  isRedactedPayload,
+  verifyEor,
+} from '../src/index.js';
+import type { CreateOperationParams } from '../src/index.js';
+import { fakeServer, testClient, toOperation } from './helpers.js';
+
+interface Subject {
+  userId: string;
+}
+
+const DataAccess = defineOperation<Subject, { read: boolean }, { rows: number }>('data.access', {
+  subject: { type: 'object', required: ['userId'], properties: { userId: { type: 'string' } } },
+  action: { type: 'object', required: ['read'], properties: { read: { type: 'boolean' } } },
+  payload: { type: 'object', required: ['rows'], properties: { rows: { type: 'integer', minimum: 0 } } },
+});
+
+const Ping = defineOperation('ping');
+
+const kek = new AesKeyEncryptionKey(Buffer.alloc(32, 5), 'kek-1');
+
+function rejects(fn: () => unknown, pattern: RegExp): void {
+  assert.throws(fn, (err: unknown) => {
+    assert.ok(err instanceof OperationValidationError);
+    assert.match(err.errors.join('\n'), pattern);
+    return true;
+  });
+}
+
+// ---------------------------------------------------------------------------
+// build
+// ---------------------------------------------------------------------------
+
+test('build keeps the input types and omits an absent payload', () => {
+  const params: CreateOperationParams<Subject, { read: boolean }, { rows: number }> = DataAccess.build({
+    subject: { userId: 'u1' },
+    action: { read: true },
+    payload: { rows: 3 },
+  });
+  assert.deepEqual(params, { operationType: 'data.access', subject: { userId: 'u1' }, action: { read: true }, payload: { rows: 3 } });
+  assert.equal('payload' in Ping.build({ subject: {}, action: {} }), false);
+});
+
+test('build reports every violation', () => {
+  rejects(
+    () => DataAccess.build({ subject: { userId: 1 as unknown as string }, action: { read: true }, payload: { rows: -1 } }),
+    /\$\.subject\.userId[\s\S]*\$\.payload\.rows/,
+  );
+});
+
+test('built params are accepted by the client as typed', async () => {
+  const server = fakeServer();
+  const { client, publicKey } = testClient({ fetch: server.fetch });
+  const { eor } = await client.createAndSubmit(DataAccess.build({ subject: { userId: 'u1' }, action: { read: true }, payload: { rows: 3 } }));
+  assert.deepEqual(eor.subject, { userId: 'u1' });
+  assert.equal(verifyEor(eor, publicKey).valid, true);
+});
+
+test('the client rejects array subjects, actions and payloads', () => {
+  const { client } = testClient();
+  assert.throws(() => client.createOperation({ operationType: 'x', subject: [], action: {} }), /subject must be a JSON object/);
+  assert.throws(() => client.createOperation({ operationType: 'x', subject: {}, action: [] }), /action must be a JSON object/);
+  assert.throws(() => client.createOperation({ operationType: 'x', subject: {}, action: {}, payload: [1] }), /payload must be a JSON object/);
+});
+
+// ---------------------------------------------------------------------------
+// parse
+// ---------------------------------------------------------------------------
+
+test('parse validates audit records with JSON subject and action', () => {
+  const { client } = testClient();
+  const eor = client.createOperation(DataAccess.build({ subject: { userId: 'u1' }, action: { read: true }, payload: { rows: 3 } }));
+  const op = DataAccess.parse(toOperation(eor, 1));
+  assert.equal(op.subject.userId, 'u1');
+  assert.equal(op.action.read, true);
+
+  rejects(() => DataAccess.parse({ ...toOperation(eor, 1), subject: '{"userId":2}' }), /\$\.subject\.userId/);
+  rejects(() => DataAccess.parse({ ...toOperation(eor, 1), action: '{' }), /\$\.action: not valid JSON/);
+  rejects(() => Ping.parse(toOperation(eor, 1)), /expected "ping", got "data.access"/);
+});
+
+test('parse checks a plaintext EOR payload', () => {
+  const { client } = testClient();
+  const eor = client.createOperation({ operationType: 'data.access', subject: { userId: 'u1' }, action: { read: true }, payload: { rows: 3 } });
+  assert.deepEqual(DataAccess.parse(eor).payload, { rows: 3 });
+
+  const bad = client.createOperation({ operationType: 'data.access', subject: { userId: 'u1' }, action: { read: true }, payload: { rows: 'many' } });
+  rejects(() => DataAccess.parse(bad), /\$\.payload\.rows/);
+});
+
+test('parse decrypts with a KEK, and skips the payload check without one', () => {
+  const { client } = testClient({ encryption: { kek } });
+  const good = client.createOperation({ operationType: 'data.access', subject: { userId: 'u1' }, action: { read: true }, payload: { rows: 3 } });
+  const bad = client.createOperation({ operationType: 'data.access', subject: { userId: 'u1' }, action: { read: true }, payload: { rows: 'many' } });
+
+  // Still sealed: subject and action are checked, the payload is returned untouched
+  const sealed = DataAccess.parse(bad);
+  assert.equal(isEncryptedPayload(sealed.payload), true);
+  assert.deepEqual(sealed.payload, bad.payload);
+
+  assert.deepEqual(DataAccess.parse(good, { kek }).payload, { rows: 3 });
+  rejects(() => DataAccess.parse(bad, { kek }), /\$\.payload\.rows/);
+  rejects(() => DataAccess.parse(good, { kek: new AesKeyEncryptionKey(Buffer.alloc(32, 6), 'kek-1') }), /\$\.payload: /);
+  // The original EOR still verifies; the parsed one carries the plaintext
+  assert.equal(verifyEor(good, testClient().publicKey).checks.payloadHash, true);
+});
+
+test('parse resolves offloaded payloads, decrypting them when they were encrypted first', () => {
+  const blobStore = new DirectoryBlobStore(fs.mkdtempSync(path.join(os.tmpdir(), 'elydora-blobs-')));
+  const payload = { rows: 3, padding: 'x'.repeat(2_000) };
+  const { client } = testClient({ offload: { store: blobStore, thresholdBytes: 1_024 } });
+  const offloaded = client.createOperation({ operationType: 'data.access', subject: { userId: 'u1' }, action: { read: true }, payload });
+
+  assert.equal(isBlobReference(DataAccess.parse(offloaded).payload), true);
+  assert.deepEqual(DataAccess.parse(offloaded, { blobStore }).payload, payload);
+
+  const { client: both } = testClient({ offload: { store: blobStore, thresholdBytes: 1_024 }, encryption: { kek } });
+  const sealed = both.createOperation({ operationType: 'data.access', subject: { userId: 'u1' }, action: { read: true }, payload });
+  assert.equal(isEncryptedPayload(DataAccess.parse(sealed, { blobStore }).payload), true);
+  assert.deepEqual(DataAccess.parse(sealed, { blobStore, kek }).payload, payload);
+
+  const missing = new DirectoryBlobStore(fs.mkdtempSync(path.join(os.tmpdir(), 'elydora-blobs-')));
+  rejects(() => DataAccess.parse(offloaded, { blobStore: missing }), /\$\.payload: Blob .* not found/);
+});
+
+test('parse skips the payload check for redacted payloads', () => {
+  const { client } = testClient();
+  const { eor } = client.createRedactedOperation({ operationType: 'data.access', subject: { userId: 'u1' }, action: { read: true }, payload: { rows: 3 } });
+  const parsed = DataAccess.parse(eor, { kek });
+  assert.equal(isRedactedPayload(parsed.payload), true);
+});
+
+// ---------------------------------------------------------------------------
+// Registry
+// ---------------------------------------------------------------------------
+
+test('the registry routes records to their definition and passes unseal options through', () => {
+  const registry = new OperationRegistry().register(DataAccess).register(Ping);
+  const { client } = testClient({ encryption: { kek } });
+  const eor = client.createOperation({ operationType: 'data.access', subject: { userId: 'u1' }, action: { read: true }, payload: { rows: 3 } });
+
+  const parsed = registry.parse(eor, { kek });
+  assert.ok(DataAccess.is(parsed));
+  assert.deepEqual(parsed.payload, { rows: 3 });
+
+  const op = registry.parse(toOperation(eor, 1));
+  assert.ok(DataAccess.is(op));
+  assert.equal(op.subject.userId, 'u1');
+  assert.equal(Ping.is(op), false);
+
+  rejects(() => registry.parse({ ...eor, operation_type: 'other' }), /no definition registered for "other"/);
+  assert.throws(() => registry.register(defineOperation('ping')), /already registered/);
+});
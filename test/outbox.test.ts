@@ -0,0 +1,231 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { FileOutbox } from '../src/index.js';
+import type { ChainResyncEvent, EOR } from '../src/index.js';
+import { apiError, fakeServer, submittedEor, testClient } from './helpers.js';
+import type { FakeServer } from './helpers.js';
+
+function tempOutbox(): FileOutbox {
+  return new FileOutbox(fs.mkdtempSync(path.join(os.tmpdir(), 'elydora-outbox-')));
+}
+
+/** A client whose first `count` operations are queued while the server is unreachable. */
+async function queuedOffline(count: number): Promise<{ client: ReturnType<typeof testClient>['client']; server: FakeServer; outbox: FileOutbox; queued: EOR[] }> {
+  const server = fakeServer();
+  const outbox = tempOutbox();
+  const { client } = testClient({ fetch: server.fetch, outbox });
+  server.intercept = () => { throw new Error('ECONNREFUSED'); };
+  const queued: EOR[] = [];
+  for (let n = 1; n <= count; n++) {
+    const result = await client.createAndSubmit({ operationType: 'data.access', subject: {}, action: {}, payload: { n } });
+    assert.equal(result.queued, true);
+    queued.push(result.eor);
+  }
+  server.intercept = undefined;
+  return { client, server, outbox, queued };
+}
+
+const params = { operationType: 'data.access', subject: {}, action: {}, payload: { n: 'next' } };
+
+test('operations queued offline are replayed in order before the next one', async () => {
+  const { client, server, outbox, queued } = await queuedOffline(2);
+  assert.equal((await outbox.list()).length, 2);
+
+  const result = await client.createAndSubmit(params);
+  assert.equal(result.queued, false);
+  assert.deepEqual(server.accepted.map((e) => e.operation_id), [...queued.map((e) => e.operation_id), result.eor.operation_id]);
+  assert.equal((await outbox.list()).length, 0);
+  assert.equal(client.getChainHash(), server.head);
+});
+
+test('entries past their TTL are re-signed as late operations', async () => {
+  const { client, server, queued } = await queuedOffline(1);
+  server.intercept = (req) => {
+    const eor = submittedEor(req);
+    return eor && !eor.action.late ? apiError(400, 'TTL_EXPIRED', 'Operation expired') : undefined;
+  };
+
+  const result = await client.flushOutbox();
+  assert.equal(result.submitted, 1);
+  assert.equal(result.reissued, 1);
+  assert.deepEqual(server.accepted[0]!.action.late, {
+    original_operation_id: queued[0]!.operation_id,
+    original_issued_at: queued[0]!.issued_at,
+  });
+});
+
+test('an entry the API refuses is dead-lettered and does not block the rest', async () => {
+  const { client, server, outbox, queued } = await queuedOffline(3);
+  const poison = queued[1]!.operation_id;
+  server.intercept = (req) => submittedEor(req)?.operation_id === poison ? apiError(400, 'VALIDATION_ERROR', 'Bad payload') : undefined;
+
+  const result = await client.flushOutbox();
+  assert.equal(result.submitted, 2);
+  assert.equal(result.reissued, 1);
+  assert.equal(result.rejected.length, 1);
+  assert.equal(result.rejected[0]!.eor.operation_id, poison);
+  assert.deepEqual(result.rejected[0]!.error, { statusCode: 400, code: 'VALIDATION_ERROR', message: 'Bad payload', requestId: 'req-test' });
+
+  // The entry behind the poison one was re-signed on the last accepted head
+  assert.equal(server.accepted[1]!.prev_chain_hash, result.receipts[0]!.chain_hash);
+  assert.deepEqual(server.accepted[1]!.action.late, {
+    original_operation_id: queued[2]!.operation_id,
+    original_issued_at: queued[2]!.issued_at,
+  });
+  assert.deepEqual(await outbox.list(), []);
+  assert.deepEqual((await outbox.listRejected()).map((e) => e.eor.operation_id), [poison]);
+  assert.equal(client.getChainHash(), server.head);
+});
+
+test('a refused tail entry moves the local chain back to the server head', async () => {
+  const { client, server, queued } = await queuedOffline(2);
+  server.intercept = (req) => submittedEor(req)?.operation_id === queued[1]!.operation_id ? apiError(401, 'INVALID_SIGNATURE', 'Bad signature') : undefined;
+
+  const { submitted, rejected } = await client.flushOutbox();
+  assert.equal(submitted, 1);
+  assert.equal(rejected.length, 1);
+  assert.equal(client.getChainHash(), server.head);
+
+  server.intercept = undefined;
+  const head = server.head;
+  const sent = server.requests.length;
+  const next = await client.createAndSubmit(params);
+  assert.equal(next.eor.prev_chain_hash, head);
+  assert.equal(server.requests.length, sent + 1);
+});
+
+test('network failures and persistent retryable errors during replay queue new operations', async () => {
+  const { client, server, outbox } = await queuedOffline(1);
+
+  server.intercept = () => apiError(503, 'INTERNAL_ERROR', 'Unavailable');
+  assert.equal((await client.createAndSubmit(params)).queued, true);
+  assert.equal((await outbox.list()).length, 2);
+
+  server.intercept = () => { throw new Error('ECONNRESET'); };
+  assert.equal((await client.createAndSubmit(params)).queued, true);
+  assert.equal((await outbox.list()).length, 3);
+
+  server.intercept = undefined;
+  assert.equal((await client.flushOutbox()).submitted, 3);
+  assert.equal(client.getChainHash(), server.head);
+});
+
+test('an operation that keeps getting 429 or 5xx after its retries is queued', async () => {
+  for (const [status, code] of [[503, 'INTERNAL_ERROR'], [429, 'RATE_LIMITED']] as const) {
+    const server = fakeServer();
+    const outbox = tempOutbox();
+    const { client } = testClient({ fetch: server.fetch, outbox, retry: { maxAttempts: 2, baseDelayMs: 1 } });
+    server.intercept = () => ({ ...apiError(status, code, 'Try later'), headers: { 'Retry-After': '0' } });
+
+    const result = await client.createAndSubmit(params);
+    assert.equal(result.queued, true);
+    assert.equal(server.requests.length, 2);
+    assert.deepEqual((await outbox.list()).map((e) => e.eor.operation_id), [result.eor.operation_id]);
+  }
+});
+
+test('an operation the API refuses is thrown, not queued', async () => {
+  const server = fakeServer();
+  const outbox = tempOutbox();
+  const { client } = testClient({ fetch: server.fetch, outbox });
+  server.intercept = () => apiError(400, 'VALIDATION_ERROR', 'Bad payload');
+
+  await assert.rejects(client.createAndSubmit(params), { code: 'VALIDATION_ERROR' });
+  assert.deepEqual(await outbox.list(), []);
+  assert.equal(client.getChainHash(), server.head);
+});
+
+test('a malformed response to a replayed entry leaves it queued instead of dead-lettering it', async () => {
+  const server = fakeServer();
+  const outbox = tempOutbox();
+  const { client } = testClient({ fetch: server.fetch, outbox, strictResponses: true });
+  server.intercept = () => { throw new Error('ECONNREFUSED'); };
+  await client.createAndSubmit(params);
+
+  server.intercept = (req) => req.method === 'POST' ? { body: { receipt: { operation_id: 42 } } } : undefined;
+  await assert.rejects(client.flushOutbox(), { code: 'INVALID_RESPONSE' });
+  assert.equal((await outbox.list()).length, 1);
+  assert.deepEqual(await outbox.listRejected(), []);
+});
+
+test('an outbox without reject() drops refused entries but still reports them', async () => {
+  const { server, outbox, queued } = await queuedOffline(1);
+  const bare = {
+    list: () => outbox.list(),
+    append: (e: Parameters<FileOutbox['append']>[0]) => outbox.append(e),
+    replace: (id: string, e: Parameters<FileOutbox['append']>[0]) => outbox.replace(id, e),
+    remove: (id: string) => outbox.remove(id),
+  };
+  const { client } = testClient({ fetch: server.fetch, outbox: bare });
+  server.intercept = () => apiError(400, 'VALIDATION_ERROR', 'Bad payload');
+
+  const { rejected } = await client.flushOutbox();
+  assert.equal(rejected[0]!.eor.operation_id, queued[0]!.operation_id);
+  assert.deepEqual(await outbox.list(), []);
+  assert.deepEqual(await outbox.listRejected(), []);
+});
+
+test('dead-lettered entries keep their files after the queue drains', async () => {
+  const { client, server, outbox, queued } = await queuedOffline(1);
+  server.intercept = () => apiError(400, 'VALIDATION_ERROR', 'Bad payload');
+  await client.flushOutbox();
+
+  // The queue is empty again, so numbering must not restart at the rejected entry's name
+  server.intercept = () => { throw new Error('ECONNREFUSED'); };
+  const { eor: second } = await client.createAndSubmit(params);
+  server.intercept = () => apiError(400, 'VALIDATION_ERROR', 'Bad payload');
+  await client.flushOutbox();
+
+  assert.deepEqual((await outbox.listRejected()).map((e) => e.eor.operation_id), [queued[0]!.operation_id, second.operation_id]);
+});
+
+/** Delivers requests to the server but loses the response to the first one. */
+function losingFirstResponse(server: FakeServer): typeof fetch {
+  let lose = true;
+  return async (input, init) => {
+    const res = await server.fetch(input, init);
+    if (lose) {
+      lose = false;
+      throw new Error('ECONNRESET');
+    }
+    return res;
+  };
+}
+
+test('an expired entry the server already accepted is not re-issued', async () => {
+  const server = fakeServer();
+  const outbox = tempOutbox();
+  const { client } = testClient({ fetch: losingFirstResponse(server), outbox, ttlMs: 50 });
+
+  const { eor, queued } = await client.createAndSubmit(params);
+  assert.equal(queued, true);
+  await new Promise((resolve) => setTimeout(resolve, 60));
+
+  const result = await client.flushOutbox();
+  assert.deepEqual({ submitted: result.submitted, reissued: result.reissued }, { submitted: 1, reissued: 0 });
+  assert.deepEqual(server.accepted.map((e) => e.operation_id), [eor.operation_id]);
+  assert.deepEqual(await outbox.list(), []);
+  assert.equal(client.getChainHash(), server.head);
+});
+
+test('an entry the server already accepted is not resynced and re-issued on PREV_HASH_MISMATCH', async () => {
+  const server = fakeServer();
+  const outbox = tempOutbox();
+  const resyncs: ChainResyncEvent[] = [];
+  const { client } = testClient({ fetch: losingFirstResponse(server), outbox, onChainResync: (e) => resyncs.push(e) });
+  const { eor } = await client.createAndSubmit(params);
+
+  // Some servers check the chain link before the operation_id
+  server.intercept = (req) => submittedEor(req)?.operation_id === eor.operation_id
+    ? apiError(409, 'PREV_HASH_MISMATCH', 'Chain moved', { expected_prev_chain_hash: server.head })
+    : undefined;
+
+  const next = await client.createAndSubmit({ ...params, payload: { n: 'after' } });
+  assert.equal(next.queued, false);
+  assert.deepEqual(server.accepted.map((e) => e.operation_id), [eor.operation_id, next.eor.operation_id]);
+  assert.deepEqual(resyncs, []);
+  assert.equal(client.getChainHash(), server.head);
+});
@@ -0,0 +1,76 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { apiError, fakeFetch, jsonBody, testClient } from './helpers.js';
+
+/** Three pages of audit results: [0, 1], [2, 3], [4]. */
+function auditPages() {
+  return fakeFetch((req) => {
+    const { cursor } = jsonBody(req);
+    const page = cursor === undefined ? 0 : Number(cursor);
+    const ids = [0, 1, 2, 3, 4].slice(page * 2, page * 2 + 2);
+    return { body: { operations: ids.map((id) => ({ operation_id: `op-${id}` })), cursor: page < 2 ? String(page + 1) : undefined } };
+  });
+}
+
+test('iterateAudit follows cursors until the last page', async () => {
+  const api = auditPages();
+  const { client } = testClient({ fetch: api.fetch });
+  const ids: string[] = [];
+  for await (const op of client.iterateAudit({ agent_id: 'agent-test' })) {
+    ids.push(op.operation_id);
+  }
+  assert.deepEqual(ids, ['op-0', 'op-1', 'op-2', 'op-3', 'op-4']);
+  assert.deepEqual(api.requests.map((r) => jsonBody(r).cursor), [undefined, '1', '2']);
+  assert.ok(api.requests.every((r) => jsonBody(r).agent_id === 'agent-test'));
+});
+
+test('breaking out of the loop stops fetching pages', async () => {
+  const api = auditPages();
+  const { client } = testClient({ fetch: api.fetch });
+  for await (const op of client.iterateAudit({})) {
+    if (op.operation_id === 'op-1') break;
+  }
+  assert.equal(api.requests.length, 1);
+});
+
+test('a repeated cursor ends the iteration', async () => {
+  const api = fakeFetch(() => ({ body: { agents: [{ agent_id: 'a' }], cursor: 'same' } }));
+  const { client } = testClient({ fetch: api.fetch });
+  const agents = [];
+  for await (const agent of client.iterateAgents({ limit: 1 })) {
+    agents.push(agent);
+  }
+  assert.equal(agents.length, 2);
+  assert.deepEqual(api.requests.map((r) => r.path), ['/v1/agents?limit=1', '/v1/agents?limit=1&cursor=same']);
+});
+
+test('rate-limited pages are retried', async () => {
+  let limited = false;
+  const api = fakeFetch((req) => {
+    if (!limited && req.path.includes('cursor=2')) {
+      limited = true;
+      return { ...apiError(429, 'RATE_LIMITED', 'Slow down'), headers: { 'Retry-After': '0' } };
+    }
+    const n = req.path.includes('cursor=2') ? 2 : 1;
+    return { body: { events: [{ event_id: `e${n}` }], cursor: n === 1 ? '2' : undefined } };
+  });
+  const { client } = testClient({ fetch: api.fetch, retry: { maxAttempts: 2 } });
+  const events = [];
+  for await (const event of client.iterateAdminEvents()) {
+    events.push(event.event_id);
+  }
+  assert.deepEqual(events, ['e1', 'e2']);
+  assert.equal(api.requests.length, 3);
+});
+
+test('iterateExports walks listExports pages', async () => {
+  const api = fakeFetch((req) => req.path.includes('cursor=')
+    ? { body: { exports: [{ export_id: 'x2' }] } }
+    : { body: { exports: [{ export_id: 'x1' }], cursor: 'c' } });
+  const { client } = testClient({ fetch: api.fetch });
+  const ids = [];
+  for await (const exp of client.iterateExports()) {
+    ids.push(exp.export_id);
+  }
+  assert.deepEqual(ids, ['x1', 'x2']);
+});
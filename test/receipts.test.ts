@@ -0,0 +1,118 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { verifyEar } from '../src/index.js';
+import type { EOR } from '../src/index.js';
+import { fakeFetch, serverKey, signReceipt, testClient } from './helpers.js';
+
+function sampleEor(): EOR {
+  return testClient().client.createOperation({ operationType: 'data.access', subject: {}, action: {} });
+}
+
+/**
+ * Run `fn` with Date.now() shifted forward by `offsetMs`.
+ */
+async function later<T>(offsetMs: number, fn: () => Promise<T>): Promise<T> {
+  const realNow = Date.now;
+  Date.now = () => realNow() + offsetMs;
+  try {
+    return await fn();
+  } finally {
+    Date.now = realNow;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// verifyEar
+// ---------------------------------------------------------------------------
+
+test('verifyEar accepts a receipt signed by a JWKS key', () => {
+  const key = serverKey();
+  const result = verifyEar(signReceipt(sampleEor(), key), { keys: [key.jwk] });
+  assert.equal(result.valid, true);
+  assert.deepEqual(result.checks, { key: true, receiptHash: true, signature: true });
+});
+
+test('verifyEar rejects a tampered seq_no, an unknown kid and a foreign signature', () => {
+  const key = serverKey();
+  const receipt = signReceipt(sampleEor(), key);
+
+  const tampered = verifyEar({ ...receipt, seq_no: receipt.seq_no + 1 }, [key.jwk]);
+  assert.equal(tampered.checks.receiptHash, false);
+  assert.equal(tampered.checks.signature, false);
+
+  const unknown = verifyEar(receipt, [serverKey('other').jwk]);
+  assert.equal(unknown.checks.key, false);
+  assert.equal(unknown.valid, false);
+
+  const foreign = verifyEar(receipt, [{ ...serverKey().jwk, kid: key.kid }]);
+  assert.equal(foreign.checks.signature, false);
+});
+
+// ---------------------------------------------------------------------------
+// ElydoraClient.verifyReceipt
+// ---------------------------------------------------------------------------
+
+function jwksClient(keys: () => unknown[]) {
+  const api = fakeFetch((req) => {
+    assert.equal(req.path, '/.well-known/elydora/jwks.json');
+    return { body: { keys: keys() } };
+  });
+  return { ...testClient({ fetch: api.fetch }), requests: api.requests };
+}
+
+test('verifyReceipt fetches the JWKS once and caches it', async () => {
+  const key = serverKey();
+  const { client, requests } = jwksClient(() => [key.jwk]);
+  const eor = sampleEor();
+
+  const results = await Promise.all([1, 2, 3].map(() => client.verifyReceipt(signReceipt(eor, key))));
+  assert.ok(results.every((r) => r.valid));
+  assert.equal(requests.length, 1);
+});
+
+test('verifyReceipt does not re-fetch the JWKS for a stream of forged kids', async () => {
+  const key = serverKey();
+  const { client, requests } = jwksClient(() => [key.jwk]);
+  const eor = sampleEor();
+  await client.verifyReceipt(signReceipt(eor, key));
+
+  for (let i = 0; i < 20; i++) {
+    const forged = await client.verifyReceipt(signReceipt(eor, serverKey(`forged-${i}`)));
+    assert.equal(forged.checks.key, false);
+  }
+  assert.equal(requests.length, 1);
+
+  // After the minimum interval one unknown kid may re-fetch, once
+  await later(61_000, async () => {
+    await client.verifyReceipt(signReceipt(eor, serverKey('forged-new')));
+    await client.verifyReceipt(signReceipt(eor, serverKey('forged-new')));
+    await client.verifyReceipt(signReceipt(eor, serverKey('forged-0')));
+  });
+  assert.equal(requests.length, 2);
+});
+
+test('verifyReceipt picks up a rotated server key after the minimum interval', async () => {
+  const oldKey = serverKey('elydora-key-1');
+  const newKey = serverKey('elydora-key-2');
+  let keys = [oldKey.jwk];
+  const { client, requests } = jwksClient(() => keys);
+  const eor = sampleEor();
+  await client.verifyReceipt(signReceipt(eor, oldKey));
+
+  keys = [oldKey.jwk, newKey.jwk];
+  const early = await client.verifyReceipt(signReceipt(eor, newKey));
+  assert.equal(early.valid, false);
+
+  const rotated = await later(61_000, () => client.verifyReceipt(signReceipt(eor, newKey)));
+  assert.equal(rotated.valid, true);
+  assert.equal(requests.length, 2);
+});
+
+test('verifyReceipt re-fetches an expired JWKS', async () => {
+  const key = serverKey();
+  const { client, requests } = jwksClient(() => [key.jwk]);
+  const eor = sampleEor();
+  await client.verifyReceipt(signReceipt(eor, key));
+  await later(3_600_001, () => client.verifyReceipt(signReceipt(eor, key)));
+  assert.equal(requests.length, 2);
+});
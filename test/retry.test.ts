@@ -0,0 +1,128 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { computeBackoff, parseRetryAfter, resolveRetryPolicy } from '../src/retry.js';
+import { ElydoraServerError } from '../src/index.js';
+import { apiError, fakeFetch, fakeServer, testClient } from './helpers.js';
+
+// ---------------------------------------------------------------------------
+// Policy
+// ---------------------------------------------------------------------------
+
+test('computeBackoff doubles per attempt, caps, and applies jitter within bounds', () => {
+  const none = resolveRetryPolicy({ baseDelayMs: 100, maxDelayMs: 500, jitter: 'none' }, 3);
+  assert.deepEqual([0, 1, 2, 3].map((a) => computeBackoff(none, a)), [100, 200, 400, 500]);
+
+  const equal = resolveRetryPolicy({ baseDelayMs: 100, jitter: 'equal' }, 3);
+  const full = resolveRetryPolicy({ baseDelayMs: 100 }, 3);
+  for (let i = 0; i < 50; i++) {
+    const e = computeBackoff(equal, 1);
+    assert.ok(e >= 100 && e <= 200);
+    const f = computeBackoff(full, 1);
+    assert.ok(f >= 0 && f <= 200);
+  }
+});
+
+test('parseRetryAfter reads delay-seconds and HTTP dates', () => {
+  const now = Date.parse('2026-01-01T00:00:00Z');
+  assert.equal(parseRetryAfter('3', now), 3000);
+  assert.equal(parseRetryAfter('Thu, 01 Jan 2026 00:00:05 GMT', now), 5000);
+  assert.equal(parseRetryAfter('Wed, 31 Dec 2025 23:59:00 GMT', now), 0);
+  assert.equal(parseRetryAfter('soon', now), null);
+  assert.equal(parseRetryAfter(null, now), null);
+});
+
+// ---------------------------------------------------------------------------
+// Client
+// ---------------------------------------------------------------------------
+
+/** The first request reaches the server but its response is lost. */
+function losingFirstResponse(inner: typeof fetch): typeof fetch {
+  let lost = false;
+  return async (input, init) => {
+    const res = await inner(input, init);
+    if (!lost) {
+      lost = true;
+      throw new Error('ECONNRESET');
+    }
+    return res;
+  };
+}
+
+test('5xx responses are retried for GET but not for non-idempotent POSTs', async () => {
+  const api = fakeFetch(() => apiError(503, 'INTERNAL_ERROR', 'Unavailable'));
+  const { client } = testClient({ fetch: api.fetch, retry: { maxAttempts: 3, baseDelayMs: 1 } });
+
+  await assert.rejects(client.listEpochs(), ElydoraServerError);
+  assert.equal(api.requests.length, 3);
+
+  await assert.rejects(client.createExport({ start_time: 0, end_time: 1, format: 'json' }), ElydoraServerError);
+  assert.equal(api.requests.length, 4);
+});
+
+test('RATE_LIMITED is retried for any method, honouring Retry-After', async () => {
+  let calls = 0;
+  const api = fakeFetch(() => ++calls === 1
+    ? { ...apiError(429, 'RATE_LIMITED', 'Slow down'), headers: { 'Retry-After': '0' } }
+    : { status: 201, body: { export: { export_id: 'x' } } });
+  const { client } = testClient({ fetch: api.fetch, retry: { maxAttempts: 2, baseDelayMs: 60_000 } });
+  const { export: exp } = await client.createExport({ start_time: 0, end_time: 1, format: 'json' });
+  assert.equal(exp.export_id, 'x');
+});
+
+test('Retry-After is honoured up to maxDelayMs', async () => {
+  let calls = 0;
+  const api = fakeFetch(() => ++calls === 1
+    ? { ...apiError(429, 'RATE_LIMITED', 'Slow down'), headers: { 'Retry-After': '86400' } }
+    : { body: { epochs: [] } });
+  const { client } = testClient({ fetch: api.fetch, retry: { maxAttempts: 2, maxDelayMs: 20 } });
+  const startedAt = Date.now();
+  await client.listEpochs();
+  assert.equal(api.requests.length, 2);
+  assert.ok(Date.now() - startedAt < 1_000);
+});
+
+test('budgetMs stops retrying before the next backoff would exceed it', async () => {
+  const api = fakeFetch(() => apiError(503, 'INTERNAL_ERROR', 'Unavailable'));
+  const { client } = testClient({ fetch: api.fetch, retry: { maxAttempts: 10, baseDelayMs: 40, jitter: 'none', budgetMs: 100 } });
+  await assert.rejects(client.listEpochs(), ElydoraServerError);
+  assert.equal(api.requests.length, 2);
+});
+
+test('submitOperation returns the receipt, and throws REPLAY_DETECTED when a retry follows a lost response', async () => {
+  const server = fakeServer();
+  const { client } = testClient({ fetch: server.fetch });
+  const eor = client.createOperation({ operationType: 'data.access', subject: {}, action: {} });
+  const { receipt } = await client.submitOperation(eor);
+  assert.equal(receipt.operation_id, eor.operation_id);
+
+  const lossy = testClient({ fetch: losingFirstResponse(fakeServer().fetch), retry: { maxAttempts: 2, baseDelayMs: 1 } }).client;
+  const next = lossy.createOperation({ operationType: 'data.access', subject: {}, action: {} });
+  await assert.rejects(lossy.submitOperation(next), { code: 'REPLAY_DETECTED' });
+});
+
+test('REPLAY_DETECTED for a different stored operation is rethrown', async () => {
+  let calls = 0;
+  const api = fakeFetch((req) => {
+    if (req.method === 'GET') {
+      return { body: { operation: { operation_id: req.path.split('/').pop(), signature: 'someone-else' } } };
+    }
+    return ++calls === 1 ? apiError(503, 'INTERNAL_ERROR', 'Unavailable') : apiError(409, 'REPLAY_DETECTED', 'Nonce reused');
+  });
+  const { client } = testClient({ fetch: api.fetch, retry: { maxAttempts: 2, baseDelayMs: 1 } });
+  await assert.rejects(client.createAndSubmit({ operationType: 'data.access', subject: {}, action: {} }), { code: 'REPLAY_DETECTED' });
+});
+
+test('createAndSubmit treats a replayed submission as accepted', async () => {
+  const server = fakeServer();
+  const lossy = losingFirstResponse(server.fetch);
+  const { client } = testClient({ fetch: lossy, retry: { maxAttempts: 2, baseDelayMs: 1 } });
+  const result = await client.createAndSubmit({ operationType: 'data.access', subject: {}, action: {} });
+  assert.equal(result.receipt, null);
+  assert.equal(result.queued, false);
+  assert.equal(client.getChainHash(), server.head);
+  assert.deepEqual(server.requests.map((r) => `${r.method} ${r.path}`), [
+    'POST /v1/operations',
+    'POST /v1/operations',
+    `GET /v1/operations/${result.eor.operation_id}`,
+  ]);
+});
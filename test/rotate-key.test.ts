@@ -0,0 +1,226 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFile } from 'node:child_process';
+import fs from 'node:fs';
+import http from 'node:http';
+import os from 'node:os';
+import path from 'node:path';
+import { promisify } from 'node:util';
+import { derivePublicKey, generateAgentKeyPair, verifyEor } from '../src/index.js';
+import { generateHookScript } from '../src/plugins/hook-template.js';
+import { apiError, fakeServer, jsonBody, testClient } from './helpers.js';
+import type { FakeRequest, FakeServer } from './helpers.js';
+
+const run = promisify(execFile);
+
+function registeredKey(req: FakeRequest) {
+  return {
+    body: {
+      key: {
+        ...jsonBody(req),
+        agent_id: 'agent-test',
+        status: 'active',
+        created_at: 0,
+        retired_at: null,
+      },
+    },
+  };
+}
+
+// ---------------------------------------------------------------------------
+// client.rotateKey
+// ---------------------------------------------------------------------------
+
+test('rotateKey registers the new key, announces it with the old one and signs later operations with it', async () => {
+  const server = fakeServer();
+  server.intercept = (req) => req.path === '/v1/agents/agent-test/keys' ? registeredKey(req) : undefined;
+  const { client, publicKey } = testClient({ fetch: server.fetch, features: { agentKeys: true } });
+
+  const rotation = await client.rotateKey({ retirePreviousAfterMs: null });
+  assert.equal(rotation.previousKid, 'agent-test-key-1');
+  assert.equal(rotation.kid, 'agent-test-key-2');
+  assert.equal(derivePublicKey(rotation.privateKey!), rotation.publicKey);
+  assert.equal(rotation.retired, null);
+  assert.equal(rotation.revoked, null);
+
+  assert.equal(jsonBody(server.requests[0]!).kid, 'agent-test-key-2');
+  assert.equal(jsonBody(server.requests[0]!).public_key, rotation.publicKey);
+  assert.equal(rotation.eor.operation_type, 'key.rotate');
+  assert.equal(rotation.eor.agent_pubkey_kid, 'agent-test-key-1');
+  assert.equal(verifyEor(rotation.eor, publicKey).valid, true);
+
+  const { eor: next } = await client.createAndSubmit({ operationType: 'data.access', subject: {}, action: {} });
+  assert.equal(next.agent_pubkey_kid, 'agent-test-key-2');
+  assert.equal(verifyEor(next, rotation.publicKey).valid, true);
+  assert.equal(server.accepted.length, 2);
+  assert.ok(server.requests.every((req) => !req.path.includes('/revoke') && !req.path.endsWith('/retire')));
+});
+
+test('key management methods throw unless features.agentKeys is enabled', async () => {
+  const server = fakeServer();
+  const { client } = testClient({ fetch: server.fetch });
+  await assert.rejects(client.rotateKey(), /features\.agentKeys/);
+  await assert.rejects(client.addAgentKey('agent-test', { kid: 'k2', public_key: 'pk', algorithm: 'ed25519' }), /features\.agentKeys/);
+  await assert.rejects(client.retireAgentKey('agent-test', 'k1'), /features\.agentKeys/);
+  assert.deepEqual(server.requests, []);
+});
+
+test('rotateKey retires the previous key after the grace period by default', async () => {
+  const server = fakeServer();
+  server.intercept = (req) => {
+    if (req.path === '/v1/agents/agent-test/keys') return registeredKey(req);
+    if (req.path.endsWith('/retire')) return { body: { key: { kid: req.path.split('/').at(-2), status: 'retired' } } };
+  };
+  const { client } = testClient({ fetch: server.fetch, features: { agentKeys: true } });
+
+  const pending = await client.rotateKey();
+  assert.ok(pending.retired);
+  assert.ok(server.requests.every((req) => !req.path.endsWith('/retire')));
+
+  const rotation = await client.rotateKey({ kid: 'agent-test-key-3', retirePreviousAfterMs: 10 });
+  await new Promise((resolve) => setTimeout(resolve, 50));
+  await rotation.retired;
+  assert.equal(rotation.revoked, null);
+  assert.ok(server.requests.some((req) => req.method === 'POST' && req.path === '/v1/agents/agent-test/keys/agent-test-key-2/retire'));
+});
+
+test('rotateKey revokes the previous key after revokePreviousAfterMs', async () => {
+  const server = fakeServer();
+  server.intercept = (req) => {
+    if (req.path === '/v1/agents/agent-test/keys') return registeredKey(req);
+    if (req.path === '/v1/agents/agent-test/revoke') return { body: {} };
+  };
+  const { client } = testClient({ fetch: server.fetch, features: { agentKeys: true } });
+
+  const rotation = await client.rotateKey({ revokePreviousAfterMs: 10 });
+  assert.equal(rotation.retired, null);
+  // The revocation timer is unref'd; keep the test's event loop alive past it
+  await new Promise((resolve) => setTimeout(resolve, 50));
+  await rotation.revoked;
+
+  const revoke = server.requests.find((req) => req.path === '/v1/agents/agent-test/revoke');
+  assert.deepEqual(revoke?.body, { kid: 'agent-test-key-1', reason: 'Rotated to agent-test-key-2' });
+});
+
+test('a failed revocation rejects `revoked` and emits a warning', async () => {
+  const server = fakeServer();
+  server.intercept = (req) => {
+    if (req.path === '/v1/agents/agent-test/keys') return registeredKey(req);
+    if (req.path === '/v1/agents/agent-test/revoke') return apiError(403, 'FORBIDDEN', 'Not allowed');
+  };
+  const { client } = testClient({ fetch: server.fetch, features: { agentKeys: true } });
+  const warned = new Promise<Error>((resolve) => process.once('warning', resolve));
+
+  const rotation = await client.rotateKey({ revokePreviousAfterMs: 0, revokeReason: 'compromised' });
+  await new Promise((resolve) => setTimeout(resolve, 50));
+  await assert.rejects(rotation.revoked!, /Not allowed/);
+  const warning = await warned;
+  assert.equal(warning.name, 'ElydoraKeyRotationWarning');
+  assert.match(warning.message, /agent-test-key-1/);
+  assert.equal(jsonBody(server.requests.at(-1)!).reason, 'compromised');
+});
+
+// ---------------------------------------------------------------------------
+// elydora rotate-key
+// ---------------------------------------------------------------------------
+
+const CLI = path.join(__dirname, '../src/cli.js');
+
+/** Serve a fake server's routes over HTTP for child processes. */
+async function listen(server: FakeServer): Promise<{ url: string; close: () => void }> {
+  const httpServer = http.createServer(async (req, res) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer);
+    }
+    const body = Buffer.concat(chunks).toString('utf-8');
+    const response = await server.fetch(`http://local${req.url}`, {
+      method: req.method,
+      headers: req.headers as Record<string, string>,
+      body: body || undefined,
+    });
+    res.writeHead(response.status, { 'Content-Type': 'application/json' });
+    res.end(Buffer.from(await response.arrayBuffer()));
+  });
+  await new Promise<void>((resolve) => httpServer.listen(0, '127.0.0.1', resolve));
+  const { port } = httpServer.address() as { port: number };
+  return { url: `http://127.0.0.1:${port}`, close: () => httpServer.close() };
+}
+
+/** An agent directory as `elydora install` leaves it, under a temporary HOME. */
+function installedAgent(baseUrl: string) {
+  const home = fs.mkdtempSync(path.join(os.tmpdir(), 'elydora-rotate-'));
+  const agentDir = path.join(home, '.elydora', 'agent-test');
+  fs.mkdirSync(agentDir, { recursive: true });
+  const { privateKey } = generateAgentKeyPair();
+  fs.writeFileSync(path.join(agentDir, 'private.key'), privateKey, { mode: 0o600 });
+  fs.writeFileSync(path.join(agentDir, 'hook.js'), generateHookScript('claudecode', 'agent-test'), { mode: 0o755 });
+  fs.writeFileSync(path.join(agentDir, 'config.json'), JSON.stringify({
+    org_id: 'org-test',
+    agent_id: 'agent-test',
+    kid: 'agent-test-key-1',
+    base_url: baseUrl,
+    token: 'token-test',
+    agent_name: 'claudecode',
+  }, null, 2) + '\n', { mode: 0o600 });
+  return { home, agentDir, privateKey };
+}
+
+function snapshot(dir: string): Record<string, string> {
+  return Object.fromEntries(fs.readdirSync(dir).sort().map((name) => [name, fs.readFileSync(path.join(dir, name), 'utf-8')]));
+}
+
+test('elydora rotate-key switches kid and key file together and the hook follows', async () => {
+  const server = fakeServer();
+  server.intercept = (req) => {
+    if (req.path === '/v1/agents/agent-test/keys') return registeredKey(req);
+    if (req.path.endsWith('/retire')) return { body: { key: { kid: 'agent-test-key-1', status: 'retired' } } };
+  };
+  const api = await listen(server);
+  try {
+    const { home, agentDir, privateKey } = installedAgent(api.url);
+    await run(process.execPath, [CLI, 'rotate-key', '--agent_id', 'agent-test', '--grace_seconds', '0'], { env: { ...process.env, HOME: home }, timeout: 20_000 });
+    assert.equal(server.requests.at(-1)!.path, '/v1/agents/agent-test/keys/agent-test-key-1/retire');
+
+    const config = JSON.parse(fs.readFileSync(path.join(agentDir, 'config.json'), 'utf-8'));
+    assert.equal(config.kid, 'agent-test-key-2');
+    assert.equal(config.private_key_file, 'private-agent-test-key-2.key');
+    assert.equal(config.token, 'token-test');
+    const newKey = fs.readFileSync(path.join(agentDir, config.private_key_file), 'utf-8');
+    assert.equal(derivePublicKey(newKey), jsonBody(server.requests[0]!).public_key);
+    // The previous key file is left in place unless the key is revoked
+    assert.equal(fs.readFileSync(path.join(agentDir, 'private.key'), 'utf-8'), privateKey);
+    assert.deepEqual(fs.readdirSync(agentDir).filter((name) => name.endsWith('.tmp')), []);
+
+    const hook = execFile(process.execPath, [path.join(agentDir, 'hook.js')], { env: { ...process.env, HOME: home }, timeout: 20_000 });
+    hook.stdin!.end(JSON.stringify({ tool_name: 'Bash', tool_input: { command: 'ls' }, session_id: 's1' }));
+    await new Promise((resolve) => hook.on('exit', resolve));
+
+    const [rotate, toolUse] = server.accepted;
+    assert.equal(rotate!.operation_type, 'key.rotate');
+    assert.equal(toolUse!.operation_type, 'ai.tool_use');
+    assert.equal(toolUse!.agent_pubkey_kid, 'agent-test-key-2');
+    assert.equal(verifyEor(toolUse!, derivePublicKey(newKey)).valid, true);
+  } finally {
+    api.close();
+  }
+});
+
+test('elydora rotate-key saves the new key before registering it and leaves the agent on the old one when that fails', async () => {
+  const server = fakeServer();
+  server.intercept = (req) => req.path === '/v1/agents/agent-test/keys' ? apiError(403, 'FORBIDDEN', 'Not allowed') : undefined;
+  const api = await listen(server);
+  try {
+    const { home, agentDir } = installedAgent(api.url);
+    const before = snapshot(agentDir);
+    await assert.rejects(
+      run(process.execPath, [CLI, 'rotate-key', '--agent_id', 'agent-test'], { env: { ...process.env, HOME: home }, timeout: 20_000 }),
+      /Not allowed/,
+    );
+    const { 'private-agent-test-key-2.key': newKey, ...rest } = snapshot(agentDir);
+    assert.deepEqual(rest, before);
+    assert.equal(derivePublicKey(newKey!), jsonBody(server.requests[0]!).public_key);
+  } finally {
+    api.close();
+  }
+});
@@ -0,0 +1,59 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ElydoraError, ElydoraResponseError, validateSchema } from '../src/index.js';
+import { fakeFetch, testClient } from './helpers.js';
+
+const agent = {
+  agent_id: 'a1',
+  org_id: 'org-test',
+  display_name: 'Agent',
+  responsible_entity: 'ops',
+  integration_type: 'sdk',
+  status: 'active',
+  created_at: 0,
+  updated_at: 0,
+};
+
+test('strict mode passes responses that match their schema', async () => {
+  const api = fakeFetch(() => ({ body: { agent, keys: [] } }));
+  const { client } = testClient({ fetch: api.fetch, strictResponses: true });
+  const res = await client.getAgent('a1');
+  assert.equal(res.agent.agent_id, 'a1');
+});
+
+test('strict mode rejects a malformed response with every violation, without retrying', async () => {
+  const api = fakeFetch(() => ({ body: { agent: { ...agent, status: 'zombie', created_at: 'yesterday' }, keys: [] } }));
+  const { client } = testClient({ fetch: api.fetch, strictResponses: true, retry: { maxAttempts: 3, baseDelayMs: 1 } });
+
+  await assert.rejects(client.getAgent('a1'), (err: unknown) => {
+    assert.ok(err instanceof ElydoraResponseError);
+    assert.ok(err instanceof ElydoraError);
+    assert.equal(err.code, 'INVALID_RESPONSE');
+    assert.equal(err.isRetryable, false);
+    assert.equal(err.statusCode, 200);
+    assert.equal(err.endpoint, 'GET /v1/agents/a1');
+    assert.equal(err.errors.length, 2);
+    assert.match(err.errors.join('\n'), /\$\.agent\.status/);
+    assert.match(err.errors.join('\n'), /\$\.agent\.created_at/);
+    return true;
+  });
+  assert.equal(api.requests.length, 1);
+});
+
+test('without strict mode, responses are returned as-is', async () => {
+  const api = fakeFetch(() => ({ body: { agent: { agent_id: 'a1' } } }));
+  const { client } = testClient({ fetch: api.fetch });
+  const res = await client.getAgent('a1');
+  assert.equal(res.agent.status, undefined);
+});
+
+test('validateSchema reports paths for nested violations', () => {
+  const errors = validateSchema({
+    type: 'object',
+    required: ['items'],
+    properties: { items: { type: 'array', items: { type: 'string', minLength: 2 } } },
+  }, { items: ['ok', 'x', 3] });
+  assert.equal(errors.length, 2);
+  assert.match(errors[0]!, /^\$\.items\[1\]/);
+  assert.match(errors[1]!, /^\$\.items\[2\]/);
+});
@@ -0,0 +1,41 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ElydoraTimeoutError } from '../src/index.js';
+import { apiError, fakeFetch, testClient } from './helpers.js';
+
+const hang = () => new Promise<never>(() => undefined);
+
+test('a hung request fails with ElydoraTimeoutError after the client timeout', async () => {
+  const api = fakeFetch(hang);
+  const { client } = testClient({ fetch: api.fetch, timeoutMs: 20 });
+  await assert.rejects(client.listEpochs(), (err: unknown) => {
+    assert.ok(err instanceof ElydoraTimeoutError);
+    assert.equal(err.timeoutMs, 20);
+    return true;
+  });
+});
+
+test('a per-call timeoutMs overrides the client default', async () => {
+  const api = fakeFetch(hang);
+  const { client } = testClient({ fetch: api.fetch, timeoutMs: 60_000 });
+  await assert.rejects(client.listEpochs({ timeoutMs: 10 }), ElydoraTimeoutError);
+});
+
+test('aborting the signal cancels the in-flight request', async () => {
+  const api = fakeFetch(hang);
+  const { client } = testClient({ fetch: api.fetch });
+  const controller = new AbortController();
+  setTimeout(() => controller.abort(new Error('cancelled')), 10);
+  await assert.rejects(client.listEpochs({ signal: controller.signal }), /cancelled/);
+});
+
+test('aborting the signal cancels a pending retry sleep', async () => {
+  const api = fakeFetch(() => apiError(503, 'INTERNAL_ERROR', 'Unavailable'));
+  const { client } = testClient({ fetch: api.fetch, retry: { maxAttempts: 3, baseDelayMs: 60_000, jitter: 'none' } });
+  const controller = new AbortController();
+  const started = Date.now();
+  setTimeout(() => controller.abort(new Error('cancelled')), 20);
+  await assert.rejects(client.listEpochs({ signal: controller.signal }), /cancelled/);
+  assert.equal(api.requests.length, 1);
+  assert.ok(Date.now() - started < 5_000);
+});
@@ -0,0 +1,126 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { FileTokenStore, MemoryTokenStore } from '../src/index.js';
+import type { ApiToken } from '../src/index.js';
+import { apiError, fakeFetch, testClient } from './helpers.js';
+
+/** Answers /v1/auth/rotate with token-2, token-3, ... and accepts only the latest token elsewhere. */
+function tokenApi() {
+  let issued = 1;
+  return fakeFetch((req) => {
+    if (req.path === '/v1/auth/rotate') {
+      issued++;
+      return { body: { token: `token-${issued}`, expires_at: Date.now() + 3_600_000, token_id: `id-${issued}` } };
+    }
+    return req.headers['Authorization'] === `Bearer token-${issued}`
+      ? { body: { epochs: [] } }
+      : apiError(401, 'UNAUTHORIZED', 'Token expired');
+  });
+}
+
+function clientWith(api: ReturnType<typeof tokenApi>, store = new MemoryTokenStore(), onRefresh?: (t: ApiToken) => void) {
+  const { client } = testClient({ fetch: api.fetch, tokens: { store, onRefresh } });
+  return client;
+}
+
+test('a token close to expiry is rotated before the request', async () => {
+  const api = tokenApi();
+  const store = new MemoryTokenStore();
+  const refreshed: ApiToken[] = [];
+  const client = clientWith(api, store, (t) => refreshed.push(t));
+  client.setToken('token-1', Date.now() + 60_000);
+
+  await client.listEpochs();
+  assert.deepEqual(api.requests.map((r) => `${r.path} ${r.headers['Authorization']}`), [
+    '/v1/auth/rotate Bearer token-1',
+    '/v1/epochs Bearer token-2',
+  ]);
+  assert.equal(store.load()?.token, 'token-2');
+  assert.equal(store.load()?.token_id, 'id-2');
+  assert.equal(refreshed.length, 1);
+});
+
+test('UNAUTHORIZED triggers one refresh and one retry', async () => {
+  const api = tokenApi();
+  const client = clientWith(api);
+  client.setToken('token-0', null);
+
+  await client.listEpochs();
+  assert.deepEqual(api.requests.map((r) => r.path), ['/v1/epochs', '/v1/auth/rotate', '/v1/epochs']);
+});
+
+test('a second UNAUTHORIZED is not retried again', async () => {
+  const api = fakeFetch((req) => req.path === '/v1/auth/rotate'
+    ? { body: { token: 'token-2', expires_at: null, token_id: 'id-2' } }
+    : apiError(401, 'UNAUTHORIZED', 'Revoked'));
+  const { client } = testClient({ fetch: api.fetch, tokens: {} });
+  await assert.rejects(client.listEpochs(), { code: 'UNAUTHORIZED' });
+  assert.equal(api.requests.length, 3);
+});
+
+test('concurrent requests share one refresh', async () => {
+  const api = tokenApi();
+  const client = clientWith(api);
+  client.setToken('token-1', Date.now() + 1_000);
+
+  await Promise.all([client.listEpochs(), client.listEpochs(), client.listEpochs()]);
+  assert.equal(api.requests.filter((r) => r.path === '/v1/auth/rotate').length, 1);
+});
+
+test('a custom refresh function replaces rotation', async () => {
+  const api = fakeFetch(() => ({ body: { epochs: [] } }));
+  const { client } = testClient({
+    fetch: api.fetch,
+    tokens: { refresh: async (current) => ({ token: `${current?.token}-renewed`, expires_at: null }) },
+  });
+  client.setToken('token-1', Date.now());
+  await client.listEpochs();
+  assert.equal(api.requests[0]!.headers['Authorization'], 'Bearer token-1-renewed');
+});
+
+test('export downloads refresh the token on UNAUTHORIZED', async () => {
+  let issued = 1;
+  const api = fakeFetch((req) => {
+    if (req.path === '/v1/auth/rotate') {
+      issued++;
+      return { body: { token: `token-${issued}`, expires_at: null, token_id: `id-${issued}` } };
+    }
+    return req.headers['Authorization'] === `Bearer token-${issued}`
+      ? { body: Buffer.from('line 1\n') }
+      : apiError(401, 'UNAUTHORIZED', 'Token expired');
+  });
+  const client = clientWith(api);
+
+  client.setToken('token-0', null);
+  assert.equal(Buffer.from(await client.downloadExport('exp-1')).toString(), 'line 1\n');
+
+  client.setToken('token-0', null);
+  const dest = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'elydora-export-')), 'audit.ndjson');
+  await client.downloadExportToFile('exp-1', dest);
+  assert.equal(fs.readFileSync(dest, 'utf-8'), 'line 1\n');
+  assert.deepEqual(api.requests.map((r) => r.path), [
+    '/v1/exports/exp-1/download', '/v1/auth/rotate', '/v1/exports/exp-1/download',
+    '/v1/exports/exp-1/download', '/v1/auth/rotate', '/v1/exports/exp-1/download',
+  ]);
+});
+
+test('FileTokenStore updates only the token fields of a hook config file', () => {
+  const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'elydora-token-')), 'config.json');
+  fs.writeFileSync(file, JSON.stringify({ org_id: 'org-test', agent_id: 'a1', token: 'old', token_id: 'id-old' }));
+
+  const store = new FileTokenStore(file);
+  assert.deepEqual(store.load(), { token: 'old', expires_at: null, token_id: 'id-old' });
+  store.save({ token: 'new', expires_at: 123 });
+  assert.deepEqual(JSON.parse(fs.readFileSync(file, 'utf-8')), { org_id: 'org-test', agent_id: 'a1', token: 'new', token_expires_at: 123 });
+});
+
+test('FileTokenStore refuses to overwrite an unparseable file', () => {
+  const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'elydora-token-')), 'config.json');
+  fs.writeFileSync(file, '{ not json');
+  assert.equal(new FileTokenStore(file).load(), null);
+  assert.throws(() => new FileTokenStore(file).save({ token: 't', expires_at: null }));
+  assert.equal(fs.readFileSync(file, 'utf-8'), '{ not json');
+});
@@ -0,0 +1,150 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  ZERO_CHAIN_HASH,
+  computeChainHash,
+  generateAgentKeyPair,
+  verifyChain,
+  verifyEor,
+} from '../src/index.js';
+import type { EOR, Operation } from '../src/index.js';
+import { testClient } from './helpers.js';
+
+function signedEor(): { eor: EOR; publicKey: string } {
+  const { client, publicKey } = testClient();
+  const eor = client.createOperation({
+    operationType: 'data.access',
+    subject: { user_id: 'u1' },
+    action: { read: true },
+    payload: { rows: 3 },
+  });
+  return { eor, publicKey };
+}
+
+// ---------------------------------------------------------------------------
+// verifyEor
+// ---------------------------------------------------------------------------
+
+test('verifyEor accepts an EOR signed by createOperation', () => {
+  const { eor, publicKey } = signedEor();
+  const result = verifyEor(eor, publicKey);
+  assert.equal(result.valid, true);
+  assert.deepEqual(result.checks, { signature: true, payloadHash: true });
+  assert.equal(result.errors, undefined);
+});
+
+test('verifyEor rejects a tampered payload', () => {
+  const { eor, publicKey } = signedEor();
+  const result = verifyEor({ ...eor, payload: { rows: 4 } }, publicKey);
+  assert.equal(result.valid, false);
+  assert.equal(result.checks.payloadHash, false);
+  assert.equal(result.checks.signature, false);
+});
+
+test('verifyEor rejects a tampered signed field', () => {
+  const { eor, publicKey } = signedEor();
+  const result = verifyEor({ ...eor, operation_type: 'data.delete' }, publicKey);
+  assert.equal(result.valid, false);
+  assert.equal(result.checks.signature, false);
+});
+
+test('verifyEor rejects a signature from another key', () => {
+  const { eor } = signedEor();
+  const result = verifyEor(eor, generateAgentKeyPair().publicKey);
+  assert.equal(result.valid, false);
+  assert.equal(result.checks.signature, false);
+  assert.match(result.errors![0]!, /Invalid signature/);
+});
+
+test('verifyEor ignores an unsigned chain_hash added by hook scripts', () => {
+  const { eor, publicKey } = signedEor();
+  const withChainHash = { ...eor, chain_hash: 'x' } as EOR;
+  assert.equal(verifyEor(withChainHash, publicKey).valid, true);
+});
+
+// ---------------------------------------------------------------------------
+// verifyChain
+// ---------------------------------------------------------------------------
+
+function chainOf(agentId: string, count: number, startChainHash = ZERO_CHAIN_HASH): Operation[] {
+  const operations: Operation[] = [];
+  let prev = startChainHash;
+  for (let i = 0; i < count; i++) {
+    const op = {
+      operation_id: `${agentId}-op-${i}`,
+      org_id: 'org-test',
+      agent_id: agentId,
+      seq_no: i + 1,
+      operation_type: 'data.access',
+      issued_at: 1_700_000_000_000 + i,
+      ttl_ms: 30_000,
+      nonce: `nonce-${i}`,
+      subject: '{}',
+      action: '{}',
+      payload_hash: `payload-${i}`,
+      prev_chain_hash: prev,
+      chain_hash: '',
+      agent_pubkey_kid: `${agentId}-key-1`,
+      signature: 'sig',
+      r2_payload_key: null,
+      created_at: 1_700_000_000_000 + i,
+    };
+    const chainHash = computeChainHash(op.prev_chain_hash, op.payload_hash, op.operation_id, op.issued_at);
+    operations.push({ ...op, chain_hash: chainHash });
+    prev = chainHash;
+  }
+  return operations;
+}
+
+test('verifyChain accepts intact chains, per agent', () => {
+  const a = chainOf('agent-a', 3);
+  const b = chainOf('agent-b', 2);
+  const result = verifyChain([a[0]!, b[0]!, a[1]!, b[1]!, a[2]!]);
+  assert.equal(result.valid, true);
+  assert.equal(result.checked, 5);
+  assert.deepEqual(result.agentIds, ['agent-a', 'agent-b']);
+});
+
+test('verifyChain starts from a given chain hash', () => {
+  const start = chainOf('agent-a', 2);
+  const rest = chainOf('agent-a', 2, start[1]!.chain_hash).map((op, i) => ({ ...op, seq_no: i + 3 }));
+  assert.equal(verifyChain(rest).valid, false);
+  assert.equal(verifyChain(rest, { startChainHash: start[1]!.chain_hash }).valid, true);
+});
+
+test('verifyChain reports a missing seq_no', () => {
+  const ops = chainOf('agent-a', 3);
+  const result = verifyChain([ops[0]!, ops[2]!]);
+  assert.equal(result.valid, false);
+  assert.deepEqual(result.break, {
+    index: 1,
+    agentId: 'agent-a',
+    operationId: 'agent-a-op-2',
+    seqNo: 3,
+    reason: 'seq_gap',
+    expected: 2,
+    actual: 3,
+  });
+});
+
+test('verifyChain reports reordered operations', () => {
+  const ops = chainOf('agent-a', 3);
+  const result = verifyChain([ops[0]!, ops[2]!, ops[1]!].map((op, i) => i === 1 ? { ...op, seq_no: 2 } : op));
+  assert.equal(result.break?.reason, 'prev_hash_mismatch');
+  assert.equal(result.break?.index, 1);
+
+  const swapped = verifyChain([ops[1]!, ops[0]!]);
+  assert.equal(swapped.break?.reason, 'prev_hash_mismatch');
+  assert.equal(swapped.break?.index, 0);
+
+  const backwards = verifyChain([ops[0]!, ops[1]!, { ...ops[2]!, seq_no: 2 }]);
+  assert.equal(backwards.break?.reason, 'seq_out_of_order');
+});
+
+test('verifyChain reports a chain_hash that does not match its inputs', () => {
+  const ops = chainOf('agent-a', 2);
+  const tampered = { ...ops[1]!, payload_hash: 'payload-x' };
+  const result = verifyChain([ops[0]!, tampered]);
+  assert.equal(result.break?.reason, 'chain_hash_mismatch');
+  assert.equal(result.break?.actual, ops[1]!.chain_hash);
+});